@@ -0,0 +1,56 @@
+// src/api-clients.ts
+
+import { createHash } from 'node:crypto';
+import { Agent } from 'node:https';
+import axios, { AxiosInstance } from 'axios';
+import { Logger } from 'winston';
+import { AuthConfig, RetryConfig } from './types.js';
+import { applyAuth } from './auth.js';
+import { applyRetry } from './retry.js';
+
+const MAX_USER_CLIENTS = 100;
+
+export interface ApiClientOptions {
+  httpsAgent?: Agent;
+  timeoutMs?: number;
+  retry?: RetryConfig;
+  logger?: Logger;
+}
+
+export function createApiClient(baseUrl: string, auth?: AuthConfig, options: ApiClientOptions = {}): AxiosInstance {
+  const { httpsAgent, timeoutMs, retry, logger } = options;
+  const api = axios.create({
+    baseURL: `${baseUrl}/rest/api/latest`,
+    headers: {
+      'X-Atlassian-Token': 'no-check'
+    },
+    ...(timeoutMs ? { timeout: timeoutMs } : {}),
+    ...(httpsAgent ? { httpsAgent } : {})
+  });
+  if (auth) {
+    applyAuth(api, auth, baseUrl);
+  }
+  if (retry && logger) {
+    applyRetry(api, retry, logger);
+  }
+  return api;
+}
+
+// One client per user token, so per-client caches (current user, server version) stay
+// with their identity. The least recently used client is dropped beyond maxSize.
+export function createUserClientCache(
+  create: (token: string) => AxiosInstance,
+  maxSize = MAX_USER_CLIENTS
+): (token: string) => AxiosInstance {
+  const clients = new Map<string, AxiosInstance>();
+  return token => {
+    const key = createHash('sha256').update(token).digest('hex');
+    const client = clients.get(key) ?? create(token);
+    clients.delete(key);
+    clients.set(key, client);
+    if (clients.size > maxSize) {
+      clients.delete(clients.keys().next().value as string);
+    }
+    return client;
+  };
+}
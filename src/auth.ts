@@ -0,0 +1,203 @@
+// src/auth.ts
+
+import { createSign, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { Agent } from 'node:https';
+import { rootCertificates } from 'node:tls';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { AuthConfig, AuthMode, OAuth1Auth, OAuth2Auth, TlsConfig } from './types.js';
+
+export const AUTH_MODES: AuthMode[] = ['token', 'basic', 'oauth1', 'oauth2', 'certificate'];
+
+type Env = Record<string, string | undefined>;
+
+function readPem(env: Env, name: string): string | undefined {
+  const path = env[name];
+  if (!path) return undefined;
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`${name} could not be read from ${path}: ${(error as Error).message}`);
+  }
+}
+
+function inferAuthMode(env: Env): AuthMode | undefined {
+  if (env.BITBUCKET_TOKEN) return 'token';
+  if (env.BITBUCKET_USERNAME && env.BITBUCKET_PASSWORD) return 'basic';
+  if (env.BITBUCKET_OAUTH2_ACCESS_TOKEN) return 'oauth2';
+  if (env.BITBUCKET_OAUTH1_CONSUMER_KEY) return 'oauth1';
+  if (env.BITBUCKET_CLIENT_CERT) return 'certificate';
+  return undefined;
+}
+
+function required(env: Env, mode: AuthMode, names: string[]) {
+  const missing = names.filter(name => !env[name]);
+  if (missing.length) {
+    throw new Error(`BITBUCKET_AUTH_MODE=${mode} requires ${missing.join(' and ')}`);
+  }
+}
+
+// The auth mode named in BITBUCKET_AUTH_MODE, or else the one whose credentials are set.
+// Only one scheme is ever applied, so a token never travels alongside basic credentials.
+export function readAuthConfig(env: Env): AuthConfig | undefined {
+  const mode = (env.BITBUCKET_AUTH_MODE as AuthMode | undefined) ?? inferAuthMode(env);
+  if (mode && !AUTH_MODES.includes(mode)) {
+    throw new Error(`BITBUCKET_AUTH_MODE must be one of: ${AUTH_MODES.join(', ')}`);
+  }
+
+  switch (mode) {
+    case 'token':
+      required(env, mode, ['BITBUCKET_TOKEN']);
+      return { mode, token: env.BITBUCKET_TOKEN as string };
+    case 'basic':
+      required(env, mode, ['BITBUCKET_USERNAME', 'BITBUCKET_PASSWORD']);
+      return { mode, username: env.BITBUCKET_USERNAME as string, password: env.BITBUCKET_PASSWORD as string };
+    case 'oauth2':
+      required(env, mode, ['BITBUCKET_OAUTH2_ACCESS_TOKEN']);
+      return {
+        mode,
+        accessToken: env.BITBUCKET_OAUTH2_ACCESS_TOKEN as string,
+        refreshToken: env.BITBUCKET_OAUTH2_REFRESH_TOKEN,
+        clientId: env.BITBUCKET_OAUTH2_CLIENT_ID,
+        clientSecret: env.BITBUCKET_OAUTH2_CLIENT_SECRET
+      };
+    case 'oauth1':
+      required(env, mode, ['BITBUCKET_OAUTH1_CONSUMER_KEY', 'BITBUCKET_OAUTH1_PRIVATE_KEY', 'BITBUCKET_OAUTH1_TOKEN']);
+      return {
+        mode,
+        consumerKey: env.BITBUCKET_OAUTH1_CONSUMER_KEY as string,
+        privateKey: readPem(env, 'BITBUCKET_OAUTH1_PRIVATE_KEY') as string,
+        token: env.BITBUCKET_OAUTH1_TOKEN as string
+      };
+    case 'certificate':
+      required(env, mode, ['BITBUCKET_CLIENT_CERT']);
+      return { mode };
+    default:
+      return undefined;
+  }
+}
+
+// Client certificate and CA bundle files. The key may live in the certificate file.
+export function readTlsConfig(env: Env): TlsConfig | undefined {
+  const cert = readPem(env, 'BITBUCKET_CLIENT_CERT');
+  const key = readPem(env, 'BITBUCKET_CLIENT_KEY') ?? cert;
+  const ca = readPem(env, 'BITBUCKET_CA_BUNDLE');
+  if (env.BITBUCKET_CLIENT_KEY && !cert) {
+    throw new Error('BITBUCKET_CLIENT_KEY requires BITBUCKET_CLIENT_CERT');
+  }
+  if (!cert && !ca) return undefined;
+  return { cert, key: cert ? key : undefined, passphrase: env.BITBUCKET_CLIENT_KEY_PASSPHRASE, ca };
+}
+
+// Extra CAs are trusted in addition to the public roots, not instead of them
+export function createHttpsAgent(tls: TlsConfig): Agent {
+  return new Agent({
+    cert: tls.cert,
+    key: tls.key,
+    passphrase: tls.passphrase,
+    ca: tls.ca ? [...rootCertificates, tls.ca] : undefined,
+    keepAlive: true
+  });
+}
+
+// RFC 3986 encoding as OAuth 1.0a requires, stricter than encodeURIComponent
+function oauthEncode(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function oauth1SignatureBase(method: string, url: string, oauthParams: Record<string, string>): string {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries(), ...Object.entries(oauthParams)]
+    .map(([key, value]) => [oauthEncode(key), oauthEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB ? valueA.localeCompare(valueB) : keyA < keyB ? -1 : 1)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const baseUrl = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+  return [method.toUpperCase(), oauthEncode(baseUrl), oauthEncode(params)].join('&');
+}
+
+export function oauth1AuthorizationHeader(
+  method: string,
+  url: string,
+  auth: Omit<OAuth1Auth, 'mode'>,
+  nonce = randomBytes(16).toString('hex'),
+  timestamp = Math.floor(Date.now() / 1000).toString()
+): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: auth.consumerKey,
+    oauth_nonce: nonce,
+    oauth_signature_method: 'RSA-SHA1',
+    oauth_timestamp: timestamp,
+    oauth_token: auth.token,
+    oauth_version: '1.0'
+  };
+  const signature = createSign('RSA-SHA1')
+    .update(oauth1SignatureBase(method, url, oauthParams))
+    .sign(auth.privateKey, 'base64');
+  return 'OAuth ' + Object.entries({ ...oauthParams, oauth_signature: signature })
+    .map(([key, value]) => `${key}="${oauthEncode(value)}"`)
+    .join(', ');
+}
+
+// On a 401, trade the refresh token for a new access token once and retry the request.
+// Concurrent failures share one refresh.
+function refreshOAuth2OnExpiry(api: AxiosInstance, auth: OAuth2Auth, baseUrl: string) {
+  const { refreshToken, clientId } = auth;
+  if (!refreshToken || !clientId) return;
+
+  let current = { accessToken: auth.accessToken, refreshToken };
+  let refreshing: Promise<string> | undefined;
+  const refresh = async () => {
+    const response = await axios.post(
+      `${baseUrl}/rest/oauth2/latest/token`,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: current.refreshToken,
+        client_id: clientId,
+        ...(auth.clientSecret ? { client_secret: auth.clientSecret } : {})
+      }),
+      { httpsAgent: api.defaults.httpsAgent }
+    );
+    current = {
+      accessToken: response.data.access_token,
+      refreshToken: response.data.refresh_token ?? current.refreshToken
+    };
+    api.defaults.headers.common.Authorization = `Bearer ${current.accessToken}`;
+    return current.accessToken;
+  };
+
+  api.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { oauthRetried?: boolean }) | undefined;
+    if (error.response?.status !== 401 || !request || request.oauthRetried) throw error;
+    refreshing ??= refresh().finally(() => {
+      refreshing = undefined;
+    });
+    request.oauthRetried = true;
+    request.headers.Authorization = `Bearer ${await refreshing}`;
+    return api.request(request);
+  });
+}
+
+// Apply exactly one authentication scheme to a client
+export function applyAuth(api: AxiosInstance, auth: AuthConfig, baseUrl: string) {
+  switch (auth.mode) {
+    case 'token':
+      api.defaults.headers.common.Authorization = `Bearer ${auth.token}`;
+      break;
+    case 'basic':
+      api.defaults.auth = { username: auth.username, password: auth.password };
+      break;
+    case 'oauth2':
+      api.defaults.headers.common.Authorization = `Bearer ${auth.accessToken}`;
+      refreshOAuth2OnExpiry(api, auth, baseUrl);
+      break;
+    case 'oauth1':
+      api.interceptors.request.use(config => {
+        config.headers.Authorization = oauth1AuthorizationHeader(config.method ?? 'get', api.getUri(config), auth);
+        return config;
+      });
+      break;
+    case 'certificate':
+      break;
+  }
+}
@@ -1,16 +1,91 @@
 // src/bitbucket-api.ts
 
-import { AxiosInstance } from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import {
   PullRequestInput,
+  PullRequestUpdateInput,
   PullRequestParams,
+  PullRequestFilters,
+  DashboardFilters,
+  BitbucketPullRequest,
   MergeOptions,
+  DeclineOptions,
   CommentOptions,
   CommentPayload,
-  BitbucketActivity
+  BitbucketActivity,
+  PageOptions,
+  ResponseFormat,
+  DiffOptions,
+  BitbucketChange,
+  BitbucketDiff,
+  ChangedFileSummary,
+  StructuredFileDiff,
+  InlineCommentOptions,
+  SuggestionOptions,
+  DiffLineAnchor,
+  BitbucketComment,
+  BitbucketParticipant,
+  ParticipantStatus,
+  ReviewOptions,
+  ReviewVerdict,
+  ReviewCommentResult,
+  ReviewerChanges,
+  PullRequestConflict,
+  BitbucketMergeStatus,
+  MergeCheckResult,
+  CommentChanges,
+  BitbucketTask,
+  TaskSummary,
+  PagedResult,
+  BitbucketPage,
+  BitbucketBrowseEntry,
+  FileListOptions,
+  FileContentOptions,
+  BitbucketCommit,
+  CommitFilters,
+  BitbucketCodeSearchResponse,
+  CodeSearchOptions,
+  CodeSearchMatch,
+  BitbucketBranch,
+  BitbucketTag,
+  RefFilters,
+  RefInput,
+  CommitTarget,
+  BitbucketBuildStatus,
+  BuildStatusResult,
+  BitbucketInsightReport,
+  InsightAnnotation,
+  InsightReportInput,
+  RefComparison,
+  CompareOptions,
+  ComparePageOptions,
+  AuthMode,
+  PermissionLevel,
+  WhoAmIResult,
+  BitbucketRepository,
+  BitbucketUser
 } from './types.js';
+import { fetchPaged, fetchPagedMatching } from './pagination.js';
+import { formatResponse } from './formatting.js';
+import {
+  DEFAULT_DIFF_MAX_SIZE,
+  diffStats,
+  globToRegExp,
+  isGlob,
+  limitDiffText,
+  limitStructuredDiff,
+  resolveAnchor,
+  toStructuredFileDiff
+} from './diff.js';
+import { getServerVersion, isVersionAtLeast } from './server-version.js';
+import { getCurrentUser } from './current-user.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { buildSearchQuery, toCodeSearchMatch } from './search.js';
+import { closestMatches } from './fuzzy.js';
+import { CommentConflictError, MergeVetoedError, PullRequestConflictError } from './errors.js';
+import { classifiedError, errorResponse } from './error-responses.js';
 
-export async function createPullRequest(api: AxiosInstance, input: PullRequestInput) {
+export async function createPullRequest(api: AxiosInstance, input: PullRequestInput, format?: ResponseFormat) {
   const response = await api.post(
     `/projects/${input.project}/repos/${input.repository}/pull-requests`,
     {
@@ -35,58 +110,201 @@ export async function createPullRequest(api: AxiosInstance, input: PullRequestIn
   );
 
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(response.data, 'pullRequest', format) }]
   };
 }
 
-export async function getPullRequest(api: AxiosInstance, params: PullRequestParams) {
+export async function getPullRequest(api: AxiosInstance, params: PullRequestParams, format?: ResponseFormat) {
   const { project, repository, prId } = params;
   const response = await api.get(
     `/projects/${project}/repos/${repository}/pull-requests/${prId}`
   );
 
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(response.data, 'pullRequest', format) }]
+  };
+}
+
+// Only provided fields change; reviewers are kept unless a replacement list is given
+export async function updatePullRequest(api: AxiosInstance, input: PullRequestUpdateInput, format?: ResponseFormat) {
+  const { project, repository, prId, title, description, targetBranch, draft, reviewers, version } = input;
+
+  const updated = await mutatePullRequest(api, input, version, async pullRequest => {
+    const response = await api.put(`/projects/${project}/repos/${repository}/pull-requests/${prId}`, {
+      version: pullRequest.version,
+      title: title ?? pullRequest.title,
+      description: description ?? pullRequest.description,
+      reviewers: reviewers
+        ? reviewers.map(username => ({ user: { name: username } }))
+        : pullRequest.reviewers.map(reviewer => ({ user: { name: reviewer.user.name } })),
+      ...(targetBranch
+        ? {
+          toRef: {
+            id: `refs/heads/${targetBranch}`,
+            repository: {
+              slug: repository,
+              project: { key: project }
+            }
+          }
+        }
+        : {}),
+      ...(draft !== undefined ? { draft } : {})
+    });
+    return response.data;
+  });
+
+  return {
+    content: [{ type: 'text', text: formatResponse(updated, 'pullRequest', format) }]
   };
 }
 
-export async function mergePullRequest(api: AxiosInstance, params: PullRequestParams, options: MergeOptions = {}) {
+function describeConflict(
+  prId: number,
+  expectedVersion: number,
+  expected: BitbucketPullRequest | undefined,
+  current: BitbucketPullRequest
+): PullRequestConflict {
+  const reviewerNames = (pullRequest: BitbucketPullRequest) =>
+    pullRequest.reviewers.map(reviewer => reviewer.user.name).sort().join(',');
+  const fields: Array<[string, (pullRequest: BitbucketPullRequest) => unknown]> = [
+    ['title', pullRequest => pullRequest.title],
+    ['description', pullRequest => pullRequest.description],
+    ['state', pullRequest => pullRequest.state],
+    ['draft', pullRequest => pullRequest.draft],
+    ['targetBranch', pullRequest => pullRequest.toRef.id],
+    ['reviewers', reviewerNames]
+  ];
+
+  // Without a snapshot of the expected version there is nothing to compare against
+  return {
+    prId,
+    expectedVersion,
+    currentVersion: current.version,
+    state: current.state,
+    latestCommit: { expected: expected?.fromRef.latestCommit, current: current.fromRef.latestCommit },
+    ...(expected
+      ? {
+        newCommits: expected.fromRef.latestCommit !== current.fromRef.latestCommit,
+        changedFields: fields.filter(([, read]) => read(expected) !== read(current)).map(([name]) => name)
+      }
+      : {})
+  };
+}
+
+// Run a pull request mutation at the version the caller last saw, or else the current one.
+// A stale version, up front or reported by Bitbucket as a 409, becomes a PullRequestConflictError
+// describing what changed instead of overwriting someone else's update.
+async function mutatePullRequest<T>(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  expectedVersion: number | undefined,
+  mutate: (pullRequest: BitbucketPullRequest) => Promise<T>
+): Promise<T> {
   const { project, repository, prId } = params;
-  const { message, strategy = 'merge-commit' } = options;
-  
-  const response = await api.post(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/merge`,
-    {
-      version: -1,
-      message,
-      strategy
+  const pullRequestUrl = `/projects/${project}/repos/${repository}/pull-requests/${prId}`;
+  const { data: pullRequest } = await api.get<BitbucketPullRequest>(pullRequestUrl);
+  if (expectedVersion !== undefined && expectedVersion !== pullRequest.version) {
+    throw new PullRequestConflictError(describeConflict(prId, expectedVersion, undefined, pullRequest));
+  }
+
+  try {
+    return await mutate(pullRequest);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      const { data: current } = await api.get<BitbucketPullRequest>(pullRequestUrl);
+      if (current.version !== pullRequest.version) {
+        throw new PullRequestConflictError(describeConflict(prId, pullRequest.version, pullRequest, current));
+      }
     }
+    throw error;
+  }
+}
+
+async function checkMerge(api: AxiosInstance, params: PullRequestParams): Promise<MergeCheckResult> {
+  const { project, repository, prId } = params;
+  const response = await api.get<BitbucketMergeStatus>(
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/merge`
   );
+  // Vetoes are kept as Bitbucket sent them: their wording comes from each merge check and
+  // its locale, so it says nothing reliable about which kind of check refused
+  const { canMerge, conflicted, outcome, vetoes = [] } = response.data;
+  return { canMerge, conflicted, outcome, vetoes };
+}
 
+// Merge pre-flight: whether the pull request can be merged and every reason it cannot
+export async function canMergePullRequest(api: AxiosInstance, params: PullRequestParams) {
+  const check = await checkMerge(api, params);
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: JSON.stringify(check, null, 2) }]
   };
 }
 
-export async function declinePullRequest(api: AxiosInstance, params: PullRequestParams, message?: string) {
+export async function mergePullRequest(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: MergeOptions = {},
+  format?: ResponseFormat
+) {
   const { project, repository, prId } = params;
-  const response = await api.post(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/decline`,
-    {
-      version: -1,
-      message
+  const { message, strategy = 'merge-commit', version, checkFirst = false } = options;
+
+  if (checkFirst) {
+    const check = await checkMerge(api, params);
+    if (!check.canMerge) {
+      throw new MergeVetoedError(check);
     }
-  );
+  }
+
+  const merged = await mutatePullRequest(api, params, version, async pullRequest => {
+    const response = await api.post(
+      `/projects/${project}/repos/${repository}/pull-requests/${prId}/merge`,
+      {
+        version: pullRequest.version,
+        message,
+        strategy
+      }
+    );
+    return response.data;
+  });
+
+  return {
+    content: [{ type: 'text', text: formatResponse(merged, 'pullRequest', format) }]
+  };
+}
+
+export async function declinePullRequest(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: DeclineOptions = {},
+  format?: ResponseFormat
+) {
+  const { project, repository, prId } = params;
+  const { message, version } = options;
+
+  const declined = await mutatePullRequest(api, params, version, async pullRequest => {
+    const response = await api.post(
+      `/projects/${project}/repos/${repository}/pull-requests/${prId}/decline`,
+      {
+        version: pullRequest.version,
+        message
+      }
+    );
+    return response.data;
+  });
 
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(declined, 'pullRequest', format) }]
   };
 }
 
-export async function addComment(api: AxiosInstance, params: PullRequestParams, options: CommentOptions) {
+async function postComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: CommentOptions
+): Promise<BitbucketComment> {
   const { project, repository, prId } = params;
   const { text, parentId } = options;
-  
+
   const response = await api.post(
     `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments`,
     {
@@ -94,136 +312,1262 @@ export async function addComment(api: AxiosInstance, params: PullRequestParams,
       parent: parentId ? { id: parentId } : undefined
     }
   );
+  return response.data;
+}
+
+export async function addComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: CommentOptions,
+  format?: ResponseFormat
+) {
+  const comment = await postComment(api, params, options);
 
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(comment, 'comment', format) }]
   };
 }
 
-export async function getDiff(api: AxiosInstance, params: PullRequestParams, contextLines: number = 10) {
+function commentUrl(params: PullRequestParams, commentId: number) {
   const { project, repository, prId } = params;
-  const response = await api.get(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/diff`,
-    {
-      params: { contextLines },
-      headers: { Accept: 'text/plain' }
+  return `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments/${commentId}`;
+}
+
+// Other Bitbucket REST modules live beside /rest/api/latest on the same server
+function restModuleUrl(api: AxiosInstance, module: string, path: string) {
+  const root = (api.defaults.baseURL ?? '').replace(/\/rest\/api\/latest\/?$/, '');
+  return `${root}/rest/${module}/latest${path}`;
+}
+
+// Apply changes to a comment at the version the caller last saw, or else the current one
+async function updateComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  commentId: number,
+  changes: CommentChanges,
+  expectedVersion?: number
+): Promise<BitbucketComment> {
+  const url = commentUrl(params, commentId);
+  const { data: comment } = await api.get<BitbucketComment>(url);
+  if (expectedVersion !== undefined && expectedVersion !== comment.version) {
+    throw new CommentConflictError(commentId, expectedVersion, comment.version);
+  }
+
+  try {
+    const response = await api.put(url, { version: comment.version, text: comment.text, ...changes });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      const { data: current } = await api.get<BitbucketComment>(url);
+      if (current.version !== comment.version) {
+        throw new CommentConflictError(commentId, comment.version, current.version);
+      }
     }
+    throw error;
+  }
+}
+
+export async function editComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  commentId: number,
+  changes: CommentChanges,
+  version?: number,
+  format?: ResponseFormat
+) {
+  const comment = await updateComment(api, params, commentId, changes, version);
+  return {
+    content: [{ type: 'text', text: formatResponse(comment, 'comment', format) }]
+  };
+}
+
+export async function deleteComment(api: AxiosInstance, params: PullRequestParams, commentId: number, version?: number) {
+  const url = commentUrl(params, commentId);
+  const { data: comment } = await api.get<BitbucketComment>(url);
+  if (version !== undefined && version !== comment.version) {
+    throw new CommentConflictError(commentId, version, comment.version);
+  }
+  await api.delete(url, { params: { version: comment.version } });
+  return {
+    content: [{ type: 'text', text: `Deleted comment ${commentId}` }]
+  };
+}
+
+// A comment with its nested replies
+export async function getCommentThread(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  commentId: number,
+  format?: ResponseFormat
+) {
+  const response = await api.get<BitbucketComment>(commentUrl(params, commentId));
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'comment', format) }]
+  };
+}
+
+export async function reactToComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  commentId: number,
+  emoticon: string,
+  remove = false
+) {
+  const { project, repository, prId } = params;
+  const url = restModuleUrl(
+    api,
+    'comment-likes',
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments/${commentId}/reactions/${encodeURIComponent(emoticon)}`
   );
+  if (remove) {
+    await api.delete(url);
+  } else {
+    await api.put(url);
+  }
+  return {
+    content: [{ type: 'text', text: `${remove ? 'Removed' : 'Added'} :${emoticon}: reaction on comment ${commentId}` }]
+  };
+}
+
+// Bitbucket 8 replaced the tasks API with blocker comments (comments with severity BLOCKER)
+async function usesBlockerComments(api: AxiosInstance) {
+  return isVersionAtLeast(await getServerVersion(api), 8);
+}
+
+function blockerCommentTask(comment: BitbucketComment): TaskSummary {
+  return {
+    id: comment.id,
+    text: comment.text,
+    state: comment.state ?? 'OPEN',
+    author: comment.author.name,
+    created: new Date(comment.createdDate).toISOString(),
+    source: 'blocker-comment'
+  };
+}
 
+function legacyTask(task: BitbucketTask): TaskSummary {
   return {
-    content: [{ type: 'text', text: response.data }]
+    id: task.id,
+    text: task.text,
+    state: task.state,
+    author: task.author.name,
+    created: new Date(task.createdDate).toISOString(),
+    ...(task.anchor ? { commentId: task.anchor.id } : {}),
+    source: 'task'
   };
 }
 
-export async function getReviews(api: AxiosInstance, params: PullRequestParams) {
+export async function listTasks(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  state: 'OPEN' | 'RESOLVED' | 'ALL' = 'OPEN',
+  page: PageOptions = {}
+) {
   const { project, repository, prId } = params;
-  const response = await api.get(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/activities`
+  const pullRequestUrl = `/projects/${project}/repos/${repository}/pull-requests/${prId}`;
+
+  let tasks: PagedResult<TaskSummary>;
+  if (await usesBlockerComments(api)) {
+    const comments = await fetchPaged<BitbucketComment>(
+      api,
+      `${pullRequestUrl}/blocker-comments`,
+      page,
+      state === 'ALL' ? {} : { state }
+    );
+    tasks = { ...comments, values: comments.values.map(blockerCommentTask) };
+  } else {
+    // The tasks API cannot filter by state, so only tasks in the wanted state count towards the limit
+    const legacy = await fetchPagedMatching<BitbucketTask>(
+      api,
+      `${pullRequestUrl}/tasks`,
+      task => state === 'ALL' || task.state === state,
+      page
+    );
+    tasks = { ...legacy, values: legacy.values.map(legacyTask) };
+  }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(tasks, null, 2) }]
+  };
+}
+
+// Attach a task to an existing comment: a blocker reply on Bitbucket 8+, a task on older servers
+export async function createTask(api: AxiosInstance, params: PullRequestParams, commentId: number, text: string) {
+  const { project, repository, prId } = params;
+
+  let task: TaskSummary;
+  if (await usesBlockerComments(api)) {
+    const response = await api.post<BitbucketComment>(
+      `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments`,
+      { text, parent: { id: commentId }, severity: 'BLOCKER' }
+    );
+    task = blockerCommentTask(response.data);
+  } else {
+    const response = await api.post<BitbucketTask>('/tasks', {
+      anchor: { id: commentId, type: 'COMMENT' },
+      text
+    });
+    task = legacyTask(response.data);
+  }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(task, null, 2) }]
+  };
+}
+
+export async function setTaskState(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  taskId: number,
+  state: 'OPEN' | 'RESOLVED'
+) {
+  let task: TaskSummary;
+  if (await usesBlockerComments(api)) {
+    task = blockerCommentTask(await updateComment(api, params, taskId, { state }));
+  } else {
+    const response = await api.put<BitbucketTask>(`/tasks/${taskId}`, { id: taskId, state });
+    task = legacyTask(response.data);
+  }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(task, null, 2) }]
+  };
+}
+
+function encodePath(path: string) {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+async function fetchTextDiff(
+  api: AxiosInstance,
+  diffUrl: string,
+  contextLines: number,
+  params: Record<string, string> = {}
+): Promise<string> {
+  const response = await api.get(diffUrl, {
+    params: { ...params, contextLines },
+    headers: { Accept: 'text/plain' }
+  });
+  return response.data;
+}
+
+async function fetchJsonDiff(
+  api: AxiosInstance,
+  diffUrl: string,
+  contextLines: number,
+  params: Record<string, string> = {}
+): Promise<BitbucketDiff> {
+  const response = await api.get<BitbucketDiff>(diffUrl, {
+    params: { ...params, contextLines },
+    headers: { Accept: 'application/json' }
+  });
+  return response.data;
+}
+
+// Where a diff and its changed files are read from: a pull request, a commit or a ref comparison
+interface DiffSource {
+  diffUrl: string;
+  changesUrl: string;
+  params?: Record<string, string>;
+  label: string;
+}
+
+const LINE_COUNT_CONCURRENCY = 4;
+
+// Added and removed lines in one changed file, from its own diff, or null for both when
+// Bitbucket truncated that diff and the counts would be short
+async function fileLineCounts(api: AxiosInstance, source: DiffSource, change: BitbucketChange) {
+  const srcPath = change.srcPath?.toString;
+  const diff = await fetchJsonDiff(
+    api,
+    `${source.diffUrl}/${encodePath(change.path.toString)}`,
+    0,
+    { ...source.params, ...(srcPath ? { srcPath } : {}) }
+  );
+  const truncated = diff.truncated || (diff.diffs ?? []).some(file => file.truncated || file.hunks?.some(hunk => hunk.truncated));
+  if (truncated) {
+    return { added: null, removed: null };
+  }
+  let added = 0;
+  let removed = 0;
+  for (const counts of diffStats(diff).values()) {
+    added += counts.added;
+    removed += counts.removed;
+  }
+  return { added, removed };
+}
+
+// Changed files with their change type, from the changes listing. Line counts need a diff
+// per file, so they are only fetched on request.
+async function changedFiles(api: AxiosInstance, source: DiffSource, page: PageOptions = {}, lineCounts = false) {
+  const changes = await fetchPaged<BitbucketChange>(api, source.changesUrl, page, source.params);
+  const counts = lineCounts
+    ? await mapWithConcurrency(changes.values, LINE_COUNT_CONCURRENCY, change => fileLineCounts(api, source, change))
+    : [];
+
+  const values: ChangedFileSummary[] = changes.values.map((change, index) => {
+    const counted = counts[index];
+    return {
+      path: change.path.toString,
+      ...(change.srcPath ? { srcPath: change.srcPath.toString } : {}),
+      type: change.type,
+      ...(counted?.status === 'fulfilled' ? counted.value : {}),
+      ...(counted?.status === 'rejected' ? { added: null, removed: null } : {})
+    };
+  });
+  return { ...changes, values };
+}
+
+// A diff as unified text or structured hunks, optionally for one path or glob, capped at maxSize
+async function renderDiff(api: AxiosInstance, source: DiffSource, options: DiffOptions = {}) {
+  const { contextLines = 10, path, structured = false, maxSize = DEFAULT_DIFF_MAX_SIZE } = options;
+
+  // A glob is resolved against the changed files; a plain path is fetched directly
+  let paths: string[] | undefined;
+  if (path && isGlob(path)) {
+    const matcher = globToRegExp(path);
+    const changes = await fetchPaged<BitbucketChange>(api, source.changesUrl, {}, source.params);
+    paths = changes.values.map(change => change.path.toString).filter(changedPath => matcher.test(changedPath));
+    if (paths.length === 0) {
+      return `No changed files in ${source.label} match ${path}`;
+    }
+  } else if (path) {
+    paths = [path];
+  }
+  const diffUrls = paths
+    ? paths.map(changedPath => `${source.diffUrl}/${encodePath(changedPath)}`)
+    : [source.diffUrl];
+
+  // Like the text diff below, stop fetching once the cap is reached
+  if (structured) {
+    const files: StructuredFileDiff[] = [];
+    let size = 0;
+    let fetched = 0;
+    for (const diffUrl of diffUrls) {
+      if (size >= maxSize) break;
+      const diff = await fetchJsonDiff(api, diffUrl, contextLines, source.params);
+      const fileDiffs = (diff.diffs ?? []).map(toStructuredFileDiff);
+      files.push(...fileDiffs);
+      size += fileDiffs.reduce((total, file) => total + JSON.stringify(file).length, 0);
+      fetched++;
+    }
+    const unfetched = paths ? paths.slice(fetched) : [];
+    return JSON.stringify(limitStructuredDiff(files, maxSize, unfetched), null, 2);
+  }
+
+  // Fetch file by file only until the size cap is reached
+  const parts: string[] = [];
+  let size = 0;
+  for (const diffUrl of diffUrls) {
+    if (size > maxSize) break;
+    const text = await fetchTextDiff(api, diffUrl, contextLines, source.params);
+    parts.push(text);
+    size += text.length;
+  }
+  const skipped = diffUrls.length - parts.length;
+  const text = limitDiffText(parts.join('\n'), maxSize);
+  return skipped > 0 ? `${text}\n[${skipped} more matching files not fetched.]` : text;
+}
+
+function pullRequestDiffSource(params: PullRequestParams): DiffSource {
+  const { project, repository, prId } = params;
+  const pullRequestUrl = `/projects/${project}/repos/${repository}/pull-requests/${prId}`;
+  return {
+    diffUrl: `${pullRequestUrl}/diff`,
+    changesUrl: `${pullRequestUrl}/changes`,
+    label: `pull request ${prId}`
+  };
+}
+
+export async function getPullRequestChanges(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  page: PageOptions = {},
+  lineCounts = false
+) {
+  const changes = await changedFiles(api, pullRequestDiffSource(params), page, lineCounts);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(changes, null, 2) }]
+  };
+}
+
+export async function getDiff(api: AxiosInstance, params: PullRequestParams, options: DiffOptions = {}) {
+  const text = await renderDiff(api, pullRequestDiffSource(params), options);
+  return {
+    content: [{ type: 'text', text }]
+  };
+}
+
+function commitDiffSource(project: string, repository: string, commitId: string): DiffSource {
+  const commitUrl = `/projects/${project}/repos/${repository}/commits/${encodeURIComponent(commitId)}`;
+  return {
+    diffUrl: `${commitUrl}/diff`,
+    changesUrl: `${commitUrl}/changes`,
+    label: `commit ${commitId}`
+  };
+}
+
+function compareDiffSource(comparison: RefComparison): DiffSource {
+  const { project, repository, from, to, fromProject, fromRepository } = comparison;
+  const compareUrl = `/projects/${project}/repos/${repository}/compare`;
+  const fromRepo = fromRepository ? `${fromProject ?? project}/${fromRepository}` : undefined;
+  return {
+    diffUrl: `${compareUrl}/diff`,
+    changesUrl: `${compareUrl}/changes`,
+    params: { from, to, ...(fromRepo ? { fromRepo } : {}) },
+    label: `${fromRepo ? `${fromRepo}:` : ''}${from}..${to}`
+  };
+}
+
+// What a pull request from `from` into `to` would contain: its commits, changed files
+// and optionally the diff, limited like a pull request diff
+export async function compareRefs(
+  api: AxiosInstance,
+  comparison: RefComparison,
+  options: CompareOptions = {},
+  page: ComparePageOptions = {},
+  format?: ResponseFormat
+) {
+  const { includeDiff = false, lineCounts = false, ...diffOptions } = options;
+  const { limit, commitsStart, changesStart } = page;
+  const source = compareDiffSource(comparison);
+  const commits = await fetchPaged<BitbucketCommit>(
+    api,
+    `/projects/${comparison.project}/repos/${comparison.repository}/compare/commits`,
+    { limit, start: commitsStart },
+    source.params
+  );
+  const changes = await changedFiles(api, source, { limit, start: changesStart }, lineCounts);
+
+  const content = [
+    { type: 'text', text: `Commits in ${source.label}:\n${formatResponse(commits, 'commit', format)}` },
+    { type: 'text', text: `Changed files in ${source.label}:\n${JSON.stringify(changes, null, 2)}` }
+  ];
+  if (includeDiff) {
+    content.push({ type: 'text', text: await renderDiff(api, source, diffOptions) });
+  }
+  return { content };
+}
+
+// Commit history, newest first; until defaults to the default branch
+export async function listCommits(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  filters: CommitFilters = {},
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const { branch, until = branch, since, path, merges } = filters;
+  const query: Record<string, string> = {};
+  if (until) query.until = until;
+  if (since) query.since = since;
+  if (path) query.path = path;
+  if (merges) query.merges = merges;
+
+  const commits = await fetchPaged<BitbucketCommit>(
+    api,
+    `/projects/${project}/repos/${repository}/commits`,
+    page,
+    query
   );
+  return {
+    content: [{ type: 'text', text: formatResponse(commits, 'commit', format) }]
+  };
+}
 
-  const reviews = response.data.values.filter(
-    (activity: BitbucketActivity) => activity.action === 'APPROVED' || activity.action === 'REVIEWED'
+export async function getCommit(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  commitId: string,
+  format?: ResponseFormat
+) {
+  const response = await api.get<BitbucketCommit>(
+    `/projects/${project}/repos/${repository}/commits/${encodeURIComponent(commitId)}`
   );
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'commit', format) }]
+  };
+}
+
+export async function getCommitChanges(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  commitId: string,
+  page: PageOptions = {},
+  lineCounts = false
+) {
+  const changes = await changedFiles(api, commitDiffSource(project, repository, commitId), page, lineCounts);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(changes, null, 2) }]
+  };
+}
+
+export async function getCommitDiff(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  commitId: string,
+  options: DiffOptions = {}
+) {
+  const text = await renderDiff(api, commitDiffSource(project, repository, commitId), options);
+  return {
+    content: [{ type: 'text', text }]
+  };
+}
 
+export async function listPullRequestCommits(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const { project, repository, prId } = params;
+  const commits = await fetchPaged<BitbucketCommit>(
+    api,
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/commits`,
+    page
+  );
   return {
-    content: [{ type: 'text', text: JSON.stringify(reviews, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(commits, 'commit', format) }]
   };
 }
 
-export async function listRepositories(api: AxiosInstance, project: string) {
-  const response = await api.get(`/projects/${project}/repos`);
+async function resolveCommit(api: AxiosInstance, target: CommitTarget): Promise<string> {
+  const { project, repository, commitId, prId } = target;
+  if (commitId) return commitId;
+  if (prId === undefined) {
+    throw new Error('Either commitId or prId is required');
+  }
+  const response = await api.get<BitbucketPullRequest>(`/projects/${project}/repos/${repository}/pull-requests/${prId}`);
+  const { latestCommit } = response.data.fromRef;
+  if (!latestCommit) {
+    throw new Error(`Pull request ${prId} has no source commit`);
+  }
+  return latestCommit;
+}
+
+// The build-status module lists every build of a commit, whichever API reported it. Bitbucket 7.4+
+// also looks up a single build of a repository by key; older servers only have the list.
+async function fetchBuildStatuses(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  commitId: string,
+  key?: string
+): Promise<BitbucketBuildStatus[]> {
+  if (key && isVersionAtLeast(await getServerVersion(api), 7, 4)) {
+    try {
+      const response = await api.get<BitbucketBuildStatus>(
+        `/projects/${project}/repos/${repository}/commits/${commitId}/builds`,
+        { params: { key } }
+      );
+      return [response.data];
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error;
+      return [];
+    }
+  }
+  const { values } = await fetchPaged<BitbucketBuildStatus>(api, restModuleUrl(api, 'build-status', `/commits/${commitId}`));
+  return key ? values.filter(build => build.key === key) : values;
+}
+
+export async function getBuildStatus(api: AxiosInstance, target: CommitTarget, key?: string) {
+  const { project, repository } = target;
+  const commitId = await resolveCommit(api, target);
+  const builds = await fetchBuildStatuses(api, project, repository, commitId, key);
+
+  const result: BuildStatusResult = {
+    commitId,
+    counts: builds.reduce<BuildStatusResult['counts']>((counts, build) => ({
+      ...counts,
+      [build.state]: (counts[build.state] ?? 0) + 1
+    }), {}),
+    builds
+  };
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
   };
 }
 
-export async function listPullRequests(api: AxiosInstance, project: string, repository: string) {
-  const response = await api.get(`/projects/${project}/repos/${repository}/pull-requests`);
+function insightsUrl(api: AxiosInstance, project: string, repository: string, commitId: string, path = '') {
+  return restModuleUrl(api, 'insights', `/projects/${project}/repos/${repository}/commits/${commitId}${path}`);
+}
+
+export async function listInsightReports(api: AxiosInstance, target: CommitTarget, page: PageOptions = {}) {
+  const { project, repository } = target;
+  const commitId = await resolveCommit(api, target);
+  const reports = await fetchPaged<BitbucketInsightReport>(
+    api,
+    insightsUrl(api, project, repository, commitId, '/reports'),
+    page
+  );
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: JSON.stringify({ commitId, ...reports }, null, 2) }]
   };
 }
 
-export async function listBranches(api: AxiosInstance, project: string, repository: string) {
-  const response = await api.get(`/projects/${project}/repos/${repository}/branches`);
+// Annotations of one report, or of every report on the commit
+export async function getInsightAnnotations(api: AxiosInstance, target: CommitTarget, reportKey?: string) {
+  const { project, repository } = target;
+  const commitId = await resolveCommit(api, target);
+  const path = reportKey ? `/reports/${encodeURIComponent(reportKey)}/annotations` : '/annotations';
+  const response = await api.get<{ annotations: InsightAnnotation[]; totalCount: number }>(
+    insightsUrl(api, project, repository, commitId, path)
+  );
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: JSON.stringify({ commitId, ...response.data }, null, 2) }]
   };
 }
 
-export async function getRepositoryDetails(api: AxiosInstance, project: string, repository: string) {
-  const response = await api.get(`/projects/${project}/repos/${repository}`);
+const ANNOTATION_BATCH_SIZE = 100;
+
+// Creating a report under an existing key replaces it along with its annotations,
+// so re-publishing a review leaves no stale findings behind
+export async function publishInsightReport(api: AxiosInstance, target: CommitTarget, input: InsightReportInput) {
+  const { project, repository } = target;
+  const { key, annotations = [], ...report } = input;
+  const commitId = await resolveCommit(api, target);
+  const reportUrl = insightsUrl(api, project, repository, commitId, `/reports/${encodeURIComponent(key)}`);
+
+  const response = await api.put<BitbucketInsightReport>(reportUrl, report);
+  for (let start = 0; start < annotations.length; start += ANNOTATION_BATCH_SIZE) {
+    await api.post(`${reportUrl}/annotations`, {
+      annotations: annotations.slice(start, start + ANNOTATION_BATCH_SIZE)
+    });
+  }
+
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{
+      type: 'text',
+      text: JSON.stringify({ commitId, report: response.data, annotations: annotations.length }, null, 2)
+    }]
   };
 }
 
-export async function addInlineComment(
+export async function getReviews(
   api: AxiosInstance,
   params: PullRequestParams,
-  options: {
-    text: string;
-    filePath: string;
-    line: number;
-    lineType?: 'CONTEXT' | 'ADDED' | 'REMOVED';
-    startColumn?: number;
-    endColumn?: number;
-    parentId?: number;
-    suggestedCode?: string;
-    originalCode?: string;
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const { project, repository, prId } = params;
+  const reviews = await fetchPagedMatching<BitbucketActivity>(
+    api,
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/activities`,
+    activity => activity.action === 'APPROVED' || activity.action === 'REVIEWED',
+    page
+  );
+
+  return {
+    content: [{ type: 'text', text: formatResponse(reviews, 'activity', format) }]
+  };
+}
+
+const SUGGESTION_SCAN_LIMIT = 1000;
+
+// A "did you mean" hint for a project key or repository slug Bitbucket could not find.
+// Best effort: undefined when nothing similar exists or the lookup itself fails.
+export async function notFoundHint(
+  api: AxiosInstance,
+  exceptionName: string | undefined,
+  project?: string,
+  repository?: string
+): Promise<string | undefined> {
+  try {
+    if (exceptionName?.endsWith('NoSuchRepositoryException') && project && repository) {
+      const repositories = await fetchPaged<BitbucketRepository>(
+        api,
+        `/projects/${project}/repos`,
+        { limit: SUGGESTION_SCAN_LIMIT }
+      );
+      const matches = closestMatches(repository, repositories.values.map(candidate => candidate.slug));
+      return matches.length
+        ? `Repository slug ${repository} not found in project ${project}; did you mean ${matches.join(' or ')}?`
+        : undefined;
+    }
+    if (exceptionName?.endsWith('NoSuchProjectException') && project) {
+      const projects = await fetchPaged<{ key: string }>(api, '/projects', { limit: SUGGESTION_SCAN_LIMIT });
+      const matches = closestMatches(project, projects.values.map(candidate => candidate.key));
+      return matches.length
+        ? `Project ${project} not found; did you mean ${matches.join(' or ')}?`
+        : undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+const PERMISSION_LEVELS: Exclude<PermissionLevel, 'NONE'>[] = ['ADMIN', 'WRITE', 'READ'];
+
+function isForbidden(error: unknown) {
+  return axios.isAxiosError(error) && [401, 403, 404].includes(error.response?.status ?? 0);
+}
+
+// Project and repository lists filtered by permission only include what the caller holds,
+// so the highest level under which the entity appears is the caller's effective permission
+async function highestPermission(
+  matches: (level: Exclude<PermissionLevel, 'NONE'>) => Promise<boolean>
+): Promise<PermissionLevel> {
+  for (const level of PERMISSION_LEVELS) {
+    if (await matches(level)) return level;
+  }
+  return 'NONE';
+}
+
+async function projectPermission(api: AxiosInstance, project: string): Promise<PermissionLevel> {
+  let name: string;
+  try {
+    name = (await api.get(`/projects/${project}`)).data.name;
+  } catch (error) {
+    if (isForbidden(error)) return 'NONE';
+    throw error;
+  }
+  return highestPermission(async level => {
+    const response = await api.get('/projects', { params: { name, permission: `PROJECT_${level}` } });
+    return (response.data.values ?? []).some((candidate: { key: string }) => candidate.key === project);
+  });
+}
+
+async function repositoryPermission(api: AxiosInstance, project: string, repository: string): Promise<PermissionLevel> {
+  let details: BitbucketRepository;
+  try {
+    details = (await api.get<BitbucketRepository>(`/projects/${project}/repos/${repository}`)).data;
+  } catch (error) {
+    if (isForbidden(error)) return 'NONE';
+    throw error;
+  }
+  return highestPermission(async level => {
+    const response = await api.get('/repos', {
+      params: { name: details.name, projectname: details.project.name, permission: `REPO_${level}` }
+    });
+    return (response.data.values ?? []).some((candidate: BitbucketRepository) =>
+      candidate.slug === repository && candidate.project.key === project);
+  });
+}
+
+// Global permissions are only readable by administrators
+async function globalPermission(api: AxiosInstance, username: string): Promise<string | undefined> {
+  try {
+    const response = await api.get('/admin/permissions/users', { params: { filter: username } });
+    const entry = (response.data.values ?? [])
+      .find((candidate: { user: BitbucketUser }) => candidate.user.name === username);
+    return entry?.permission;
+  } catch (error) {
+    if (isForbidden(error)) return undefined;
+    throw error;
   }
+}
+
+// The authenticated user and, when asked, its permission on a project and repository
+export async function whoami(
+  api: AxiosInstance,
+  authMode: AuthMode | 'user-token',
+  project?: string,
+  repository?: string
+) {
+  const user = await getCurrentUser(api);
+  const result: WhoAmIResult = {
+    user: { name: user.name, slug: user.slug, displayName: user.displayName, emailAddress: user.emailAddress },
+    authMode,
+    permissions: {}
+  };
+
+  const global = await globalPermission(api, user.name);
+  if (global) result.permissions.global = global;
+  if (project) result.permissions.project = await projectPermission(api, project);
+  if (project && repository) result.permissions.repository = await repositoryPermission(api, project, repository);
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+  };
+}
+
+export async function listRepositories(
+  api: AxiosInstance,
+  project: string,
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const repositories = await fetchPaged(api, `/projects/${project}/repos`, page);
+  return {
+    content: [{ type: 'text', text: formatResponse(repositories, 'repository', format) }]
+  };
+}
+
+// Map filters onto Bitbucket's query parameters; participants are passed as role.N/username.N pairs
+function pullRequestQuery(filters: PullRequestFilters) {
+  const { state, direction, at, author, reviewer, order, filterText } = filters;
+  const query: Record<string, string> = {};
+  if (state) query.state = state;
+  if (direction) query.direction = direction;
+  if (at) query.at = at.startsWith('refs/') ? at : `refs/heads/${at}`;
+  if (order) query.order = order;
+  if (filterText) query.filterText = filterText;
+
+  const participants = [
+    ...(author ? [{ role: 'AUTHOR', username: author }] : []),
+    ...(reviewer ? [{ role: 'REVIEWER', username: reviewer }] : [])
+  ];
+  participants.forEach(({ role, username }, index) => {
+    query[`role.${index + 1}`] = role;
+    query[`username.${index + 1}`] = username;
+  });
+
+  return query;
+}
+
+export async function listPullRequests(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  filters: PullRequestFilters = {},
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const pullRequests = await fetchPaged(
+    api,
+    `/projects/${project}/repos/${repository}/pull-requests`,
+    page,
+    pullRequestQuery(filters)
+  );
+  return {
+    content: [{ type: 'text', text: formatResponse(pullRequests, 'pullRequest', format) }]
+  };
+}
+
+// Pull requests the authenticated user is involved in, across all repositories
+export async function getMyPullRequests(
+  api: AxiosInstance,
+  filters: DashboardFilters = {},
+  page: PageOptions = {},
+  format: ResponseFormat = 'summary'
+) {
+  const { role, state = 'OPEN', participantStatus, order } = filters;
+  const query: Record<string, string> = { state };
+  if (role) query.role = role;
+  if (participantStatus) query.participantStatus = participantStatus;
+  if (order) query.order = order;
+
+  const pullRequests = await fetchPaged<BitbucketPullRequest>(api, '/dashboard/pull-requests', page, query);
+  return {
+    content: [{ type: 'text', text: formatResponse(pullRequests, 'pullRequest', format) }]
+  };
+}
+
+function refQuery(filters: RefFilters) {
+  const { filterText, orderBy } = filters;
+  const query: Record<string, string> = {};
+  if (filterText) query.filterText = filterText;
+  if (orderBy) query.orderBy = orderBy;
+  return query;
+}
+
+// Accept both short branch names and fully qualified refs
+function branchRef(name: string) {
+  return name.startsWith('refs/') ? name : `refs/heads/${name}`;
+}
+
+export async function listBranches(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  filters: RefFilters = {},
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const branches = await fetchPaged<BitbucketBranch>(
+    api,
+    `/projects/${project}/repos/${repository}/branches`,
+    page,
+    refQuery(filters)
+  );
+  return {
+    content: [{ type: 'text', text: formatResponse(branches, 'branch', format) }]
+  };
+}
+
+export async function createBranch(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  input: RefInput,
+  format?: ResponseFormat
+) {
+  const { name, startPoint, message } = input;
+  const response = await api.post(`/projects/${project}/repos/${repository}/branches`, {
+    name,
+    startPoint,
+    ...(message ? { message } : {})
+  });
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'branch', format) }]
+  };
+}
+
+// Branch deletion is only offered by the branch-utils module. With endPoint the branch
+// is only deleted while it still points at that commit.
+export async function deleteBranch(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  name: string,
+  endPoint?: string
+) {
+  await api.delete(restModuleUrl(api, 'branch-utils', `/projects/${project}/repos/${repository}/branches`), {
+    data: { name: branchRef(name), ...(endPoint ? { endPoint } : {}) }
+  });
+  return {
+    content: [{ type: 'text', text: `Branch ${name} deleted` }]
+  };
+}
+
+export async function getDefaultBranch(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  format?: ResponseFormat
+) {
+  const response = await api.get(`/projects/${project}/repos/${repository}/branches/default`);
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'branch', format) }]
+  };
+}
+
+export async function setDefaultBranch(api: AxiosInstance, project: string, repository: string, name: string) {
+  await api.put(`/projects/${project}/repos/${repository}/branches/default`, { id: branchRef(name) });
+  return {
+    content: [{ type: 'text', text: `Default branch set to ${name}` }]
+  };
+}
+
+export async function listTags(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  filters: RefFilters = {},
+  page: PageOptions = {},
+  format?: ResponseFormat
+) {
+  const tags = await fetchPaged<BitbucketTag>(
+    api,
+    `/projects/${project}/repos/${repository}/tags`,
+    page,
+    refQuery(filters)
+  );
+  return {
+    content: [{ type: 'text', text: formatResponse(tags, 'tag', format) }]
+  };
+}
+
+// A message makes an annotated tag; without one the tag is lightweight
+export async function createTag(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  input: RefInput,
+  format?: ResponseFormat
+) {
+  const { name, startPoint, message } = input;
+  const response = await api.post(`/projects/${project}/repos/${repository}/tags`, {
+    name,
+    startPoint,
+    ...(message ? { message } : {})
+  });
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'tag', format) }]
+  };
+}
+
+export async function getRepositoryDetails(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  format?: ResponseFormat
 ) {
+  const response = await api.get(`/projects/${project}/repos/${repository}`);
+  return {
+    content: [{ type: 'text', text: formatResponse(response.data, 'repository', format) }]
+  };
+}
+
+// Diffs fetched per file path, so a batch of comments on one file loads its diff once
+type DiffCache = Map<string, Promise<BitbucketDiff>>;
+
+// Resolve an inline comment's anchor against the file diff, failing with InvalidAnchorError
+// before anything is posted
+async function inlineCommentPayload(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: InlineCommentOptions,
+  diffs: DiffCache = new Map()
+): Promise<CommentPayload> {
   const { project, repository, prId } = params;
   const {
     text,
     filePath,
     line,
-    lineType = 'CONTEXT',
+    lineType,
     startColumn,
     endColumn,
     parentId,
-    suggestedCode,
-    originalCode
+    startLine
   } = options;
 
-  let finalText = text;
-  if (suggestedCode) {
-    const title = text || `Suggestion for ${filePath} at line ${line}`;
-    let commentText = `${title}\n\n`;
-    commentText += '```diff\n';
-    if (originalCode) {
-      const removedLines = originalCode.split('\n').map(l => `- ${l}`).join('\n');
-      commentText += `${removedLines}\n`;
+  // Replies inherit their parent's anchor, so only new comments are checked against the diff
+  const pullRequestUrl = `/projects/${project}/repos/${repository}/pull-requests/${prId}`;
+  let diff: BitbucketDiff | undefined;
+  if (!parentId) {
+    if (!diffs.has(filePath)) {
+      diffs.set(filePath, fetchJsonDiff(api, `${pullRequestUrl}/diff/${encodePath(filePath)}`, 10));
     }
-    const addedLines = suggestedCode.split('\n').map(l => `+ ${l}`).join('\n');
-    commentText += addedLines;
-    commentText += '\n```';
-    commentText += `\n\nSuggested code:\n\`\`\`\n${suggestedCode}\n\`\`\``;
-    finalText = commentText;
+    diff = await diffs.get(filePath);
   }
+  const anchor: DiffLineAnchor = diff
+    ? resolveAnchor(diff, filePath, line, lineType)
+    : { line, lineType: lineType ?? 'CONTEXT', fileType: 'TO' };
+  const multilineStart = diff && startLine !== undefined && startLine < line
+    ? resolveAnchor(diff, filePath, startLine)
+    : undefined;
 
-  const payload: CommentPayload = {
-    text: finalText,
+  return {
+    text,
     anchor: {
       diffType: 'EFFECTIVE',
       path: filePath,
-      lineType,
-      line,
-      fileType: 'TO',
-      ...(startColumn && endColumn ? { startColumn, endColumn } : {})
+      ...anchor,
+      ...(startColumn && endColumn ? { startColumn, endColumn } : {}),
+      ...(multilineStart
+        ? { multilineMarker: { startLine: multilineStart.line, startLineType: multilineStart.lineType } }
+        : {})
     },
     parent: parentId ? { id: parentId } : undefined
   };
+}
 
-  const response = await api.post(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments`,
-    payload
-  );
+async function postInlineComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: InlineCommentOptions,
+  diffs: DiffCache = new Map()
+): Promise<BitbucketComment> {
+  const { project, repository, prId } = params;
+  const payload = await inlineCommentPayload(api, params, options, diffs);
+  const response = await api.post(`/projects/${project}/repos/${repository}/pull-requests/${prId}/comments`, payload);
+  return response.data;
+}
+
+export async function addInlineComment(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: InlineCommentOptions,
+  format?: ResponseFormat
+) {
+  const comment = await postInlineComment(api, params, options);
+  return {
+    content: [{ type: 'text', text: formatResponse(comment, 'comment', format) }]
+  };
+}
+
+async function fetchRawFile(api: AxiosInstance, project: string, repository: string, path: string, at?: string) {
+  const response = await api.get<ArrayBuffer>(`/projects/${project}/repos/${repository}/raw/${encodePath(path)}`, {
+    params: at ? { at } : {},
+    responseType: 'arraybuffer'
+  });
+  return Buffer.from(response.data);
+}
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary content
+function isBinary(content: Buffer) {
+  return content.subarray(0, 8000).includes(0);
+}
+
+// Files in a directory at a ref; recursive lists every file path below it
+export async function listFiles(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  options: FileListOptions = {},
+  page: PageOptions = {}
+) {
+  const { path = '', at, recursive = false } = options;
+  const repositoryUrl = `/projects/${project}/repos/${repository}`;
+  const suffix = path ? `/${encodePath(path.replace(/^\/+|\/+$/g, ''))}` : '';
+  const query = at ? { at } : {};
+
+  // Browsing a file returns its lines instead of children
+  let isFile = false;
+  const files = recursive
+    ? await fetchPaged<string>(api, `${repositoryUrl}/files${suffix}`, page, query)
+    : await fetchPaged<BitbucketBrowseEntry>(
+      api,
+      `${repositoryUrl}/browse${suffix}`,
+      page,
+      query,
+      data => {
+        const { children } = data as { children?: BitbucketPage<BitbucketBrowseEntry> };
+        isFile = !children;
+        return children ?? { values: [], size: 0, limit: 0, start: 0, isLastPage: true };
+      }
+    ).then(entries => ({
+      ...entries,
+      values: entries.values.map(entry => ({
+        path: entry.path.toString,
+        type: entry.type,
+        ...(entry.size !== undefined ? { size: entry.size } : {})
+      }))
+    }));
+
+  if (isFile) {
+    return errorResponse(classifiedError('validation', `${path} is a file, not a directory; read it with get_file_content`));
+  }
+  return {
+    content: [{ type: 'text', text: JSON.stringify(files, null, 2) }]
+  };
+}
+
+const DEFAULT_FILE_MAX_SIZE = 100000;
+
+// A file's content at a ref, optionally limited to a line range. Output is cut at a line
+// boundary once it reaches maxSize characters, saying where to continue.
+export async function getFileContent(
+  api: AxiosInstance,
+  project: string,
+  repository: string,
+  path: string,
+  options: FileContentOptions = {}
+) {
+  const { at, startLine = 1, endLine, lineNumbers = false, maxSize = DEFAULT_FILE_MAX_SIZE } = options;
+  if (!Number.isInteger(startLine) || startLine < 1) {
+    return errorResponse(classifiedError('validation', 'startLine must be a line number of at least 1'));
+  }
+  if (endLine !== undefined && (!Number.isInteger(endLine) || endLine < startLine)) {
+    return errorResponse(classifiedError('validation', 'endLine must be a line number no less than startLine'));
+  }
+
+  const content = await fetchRawFile(api, project, repository, path, at);
+  if (isBinary(content)) {
+    return {
+      content: [{ type: 'text', text: `${path} is a binary file (${content.length} bytes); its content is not shown.` }]
+    };
+  }
+
+  // A final newline ends the last line rather than starting another one
+  const lines = content.toString('utf8').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  const requestedLast = Math.min(endLine ?? lines.length, lines.length);
+  const rendered = lines.slice(startLine - 1, requestedLast).map((line, index) => lineNumbers
+    ? `${String(startLine + index).padStart(String(requestedLast).length)}  ${line}`
+    : line);
+
+  // At least one line is kept, cut to maxSize if it is longer on its own
+  let shown = 0;
+  let size = 0;
+  while (shown < rendered.length && (shown === 0 || size + rendered[shown].length < maxSize)) {
+    size += rendered[shown].length + 1;
+    shown++;
+  }
+  const last = startLine + shown - 1;
+  const joined = rendered.slice(0, shown).join('\n');
+  const text = joined.slice(0, maxSize);
+  const header = startLine > 1 || last < lines.length
+    ? `${path} lines ${startLine}-${last} of ${lines.length}${at ? ` at ${at}` : ''}\n\n`
+    : '';
+  const notice = last < requestedLast
+    ? `\n\n[Truncated at ${maxSize} characters; continue with startLine ${last + 1}.]`
+    : joined.length > maxSize ? `\n\n[Truncated at ${maxSize} characters.]` : '';
+
+  return {
+    content: [{ type: 'text', text: `${header}${text}${notice}` }]
+  };
+}
+
+const DEFAULT_SEARCH_LIMIT = 25;
+
+// Code search lives in its own REST module, which is missing or disabled on instances
+// without a search server (404) or with one that is down (503)
+export async function searchCode(api: AxiosInstance, options: CodeSearchOptions, page: PageOptions = {}) {
+  const { limit = DEFAULT_SEARCH_LIMIT, start = 0 } = page;
+  let data: BitbucketCodeSearchResponse;
+  try {
+    const response = await api.post(restModuleUrl(api, 'search', '/search'), {
+      query: buildSearchQuery(options),
+      entities: { code: { start, limit } },
+      limits: { primary: limit, secondary: 10 }
+    });
+    data = response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && [404, 503].includes(error.response?.status ?? 0)) {
+      return errorResponse(classifiedError('unavailable', 'Code search is not available on this Bitbucket instance', {
+        status: error.response?.status
+      }));
+    }
+    throw error;
+  }
+
+  const code = data.code;
+  const matches: PagedResult<CodeSearchMatch> = {
+    values: (code?.values ?? []).map(toCodeSearchMatch),
+    size: code?.values.length ?? 0,
+    isLastPage: code?.isLastPage ?? true,
+    ...(code && !code.isLastPage && code.nextStart !== undefined ? { nextPageStart: code.nextStart } : {})
+  };
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: JSON.stringify({ total: code?.count ?? 0, ...matches }, null, 2) }]
   };
 }
 
+// Bitbucket 8+ renders ```suggestion blocks with an "Apply suggestion" button; older servers
+// get a diff of the original and suggested code read from the pull request's source commit.
+export async function suggestCodeChange(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  options: SuggestionOptions,
+  format?: ResponseFormat
+) {
+  const { project, repository, prId } = params;
+  const { message, filePath, line, endLine = line, lineType, suggestedCode, parentId } = options;
+  const range = endLine > line ? `lines ${line}-${endLine}` : `line ${line}`;
+  const title = message || `Suggestion for ${filePath} at ${range}`;
+
+  const native = isVersionAtLeast(await getServerVersion(api), 8);
+  let text: string;
+  if (native) {
+    text = `${title}\n\n\`\`\`suggestion\n${suggestedCode}\n\`\`\``;
+  } else {
+    const pullRequest = await api.get<BitbucketPullRequest>(
+      `/projects/${project}/repos/${repository}/pull-requests/${prId}`
+    );
+    const content = await fetchRawFile(api, project, repository, filePath, pullRequest.data.fromRef.latestCommit);
+    const originalCode = content.toString('utf8').split('\n').slice(line - 1, endLine).join('\n');
+
+    text = `${title}\n\n\`\`\`diff\n`;
+    if (originalCode) {
+      text += `${originalCode.split('\n').map(l => `- ${l}`).join('\n')}\n`;
+    }
+    text += suggestedCode.split('\n').map(l => `+ ${l}`).join('\n');
+    text += '\n```';
+    text += `\n\nSuggested code:\n\`\`\`\n${suggestedCode}\n\`\`\``;
+  }
+
+  return addInlineComment(
+    api,
+    params,
+    {
+      text,
+      filePath,
+      line: endLine,
+      lineType,
+      parentId,
+      ...(native && endLine > line ? { startLine: line } : {})
+    },
+    format
+  );
+}
+
 // Download the entire repository as an archive (zip or tar)
 export async function getRepositoryArchive(
   api: AxiosInstance,
@@ -257,39 +1601,228 @@ export async function getRepositoryArchive(
 // Get all comments on a pull request
 export async function getPullRequestComments(
   api: AxiosInstance,
-  params: PullRequestParams
+  params: PullRequestParams,
+  page: PageOptions = {},
+  format?: ResponseFormat
 ) {
   const { project, repository, prId } = params;
-  const response = await api.get(
-    `/projects/${project}/repos/${repository}/pull-requests/${prId}/activities`
-  );
-  // Filter for comment actions
-  const comments = (response.data.values || []).filter(
-    (activity: any) => activity.action === 'COMMENTED' && activity.comment
+  // Only comment actions count towards the limit
+  const comments = await fetchPagedMatching<BitbucketActivity>(
+    api,
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/activities`,
+    activity => activity.action === 'COMMENTED' && Boolean(activity.comment),
+    page
   );
   return {
-    content: [{ type: 'text', text: JSON.stringify(comments, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(comments, 'activity', format) }]
   };
 }
 
 // Approve a pull request
-export async function approvePullRequest(api: AxiosInstance, params: PullRequestParams) {
+export async function approvePullRequest(api: AxiosInstance, params: PullRequestParams, format?: ResponseFormat) {
   const { project, repository, prId } = params;
   const response = await api.post(
     `/projects/${project}/repos/${repository}/pull-requests/${prId}/approve`
   );
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(response.data, 'participant', format) }]
   };
 }
 
 // Unapprove a pull request (reject approval)
-export async function unapprovePullRequest(api: AxiosInstance, params: PullRequestParams) {
+export async function unapprovePullRequest(api: AxiosInstance, params: PullRequestParams, format?: ResponseFormat) {
   const { project, repository, prId } = params;
   const response = await api.delete(
     `/projects/${project}/repos/${repository}/pull-requests/${prId}/approve`
   );
   return {
-    content: [{ type: 'text', text: JSON.stringify(response.data, null, 2) }]
+    content: [{ type: 'text', text: formatResponse(response.data, 'participant', format) }]
+  };
+}
+
+// Set the authenticated user's review status on a pull request
+async function setParticipantStatus(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  status: ParticipantStatus
+): Promise<BitbucketParticipant> {
+  const { project, repository, prId } = params;
+  const user = await getCurrentUser(api);
+  const response = await api.put(
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}/participants/${encodeURIComponent(user.slug ?? user.name)}`,
+    { user: { name: user.name }, approved: status === 'APPROVED', status }
+  );
+  return response.data;
+}
+
+export async function setReviewStatus(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  status: ParticipantStatus,
+  format?: ResponseFormat
+) {
+  const participant = await setParticipantStatus(api, params, status);
+  return {
+    content: [{ type: 'text', text: formatResponse(participant, 'participant', format) }]
+  };
+}
+
+// Author, reviewers and other participants of a pull request with their review status
+export async function listParticipants(api: AxiosInstance, params: PullRequestParams, format?: ResponseFormat) {
+  const { project, repository, prId } = params;
+  const response = await api.get<BitbucketPullRequest>(
+    `/projects/${project}/repos/${repository}/pull-requests/${prId}`
+  );
+  const { author, reviewers = [], participants = [] } = response.data;
+  return {
+    content: [{ type: 'text', text: formatResponse([author, ...reviewers, ...participants], 'participant', format) }]
+  };
+}
+
+// Add and remove reviewers by updating the pull request at its current version
+export async function updateReviewers(
+  api: AxiosInstance,
+  params: PullRequestParams,
+  changes: ReviewerChanges,
+  format?: ResponseFormat
+) {
+  const { project, repository, prId } = params;
+  const { add = [], remove = [], version } = changes;
+
+  const updated = await mutatePullRequest(api, params, version, async pullRequest => {
+    const usernames = pullRequest.reviewers
+      .map(reviewer => reviewer.user.name)
+      .filter(username => !remove.includes(username));
+    usernames.push(...add.filter(username => !usernames.includes(username)));
+
+    const response = await api.put(`/projects/${project}/repos/${repository}/pull-requests/${prId}`, {
+      version: pullRequest.version,
+      title: pullRequest.title,
+      description: pullRequest.description,
+      reviewers: usernames.map(username => ({ user: { name: username } }))
+    });
+    return response.data;
+  });
+  return {
+    content: [{ type: 'text', text: formatResponse(updated, 'pullRequest', format) }]
+  };
+}
+
+function errorMessage(error: unknown) {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.errors?.[0]?.message ?? data?.message ?? error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+const REVIEW_STATUS: Record<ReviewVerdict, ParticipantStatus | undefined> = {
+  'approve': 'APPROVED',
+  'needs-work': 'NEEDS_WORK',
+  'comment': undefined
+};
+
+// Post a whole review. Every inline anchor is resolved first, so an invalid comment stops the
+// review before anything is posted. Comments then go out with bounded concurrency and the
+// verdict is applied last, only if every comment was posted. With rollbackOnFailure, a
+// partially posted review is deleted again.
+export async function submitReview(api: AxiosInstance, params: PullRequestParams, options: ReviewOptions) {
+  const { project, repository, prId } = params;
+  const { comments, verdict = 'comment', concurrency = 4, rollbackOnFailure = false } = options;
+  const diffs: DiffCache = new Map();
+
+  const prepared = await mapWithConcurrency(comments, concurrency, async comment => {
+    const { text, filePath, line, endLine, lineType, parentId } = comment;
+    if (filePath && line !== undefined) {
+      const anchorLine = endLine ?? line;
+      return inlineCommentPayload(
+        api,
+        params,
+        { text, filePath, line: anchorLine, lineType, parentId, ...(anchorLine > line ? { startLine: line } : {}) },
+        diffs
+      );
+    }
+    return { text, parent: parentId ? { id: parentId } : undefined };
+  });
+  const invalid = prepared.filter(result => result.status === 'rejected').length;
+  if (invalid > 0) {
+    const results: ReviewCommentResult[] = prepared.map((result, index) => ({
+      index,
+      filePath: comments[index].filePath,
+      line: comments[index].line,
+      ...(result.status === 'rejected'
+        ? { status: 'failed' as const, error: errorMessage(result.reason) }
+        : { status: 'skipped' as const })
+    }));
+    const summary = {
+      posted: 0,
+      failed: invalid,
+      rolledBack: 0,
+      verdict: { verdict, applied: false, error: `Nothing was posted because ${invalid} comment(s) are invalid` },
+      comments: results
+    };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }]
+    };
+  }
+
+  const payloads = prepared.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  const settled = await mapWithConcurrency(payloads, concurrency, async payload => {
+    const response = await api.post<BitbucketComment>(
+      `/projects/${project}/repos/${repository}/pull-requests/${prId}/comments`,
+      payload
+    );
+    return response.data;
+  });
+
+  const results: ReviewCommentResult[] = settled.map((result, index) => ({
+    index,
+    filePath: comments[index].filePath,
+    line: comments[index].line,
+    ...(result.status === 'fulfilled'
+      ? { status: 'posted' as const, id: result.value.id }
+      : { status: 'failed' as const, error: errorMessage(result.reason) })
+  }));
+  const failed = results.filter(result => result.status === 'failed').length;
+
+  if (failed > 0 && rollbackOnFailure) {
+    const posted = settled.flatMap((result, index) => result.status === 'fulfilled' ? [{ index, comment: result.value }] : []);
+    for (const { index, comment } of posted.reverse()) {
+      try {
+        await api.delete(commentUrl(params, comment.id), { params: { version: comment.version } });
+        results[index].status = 'rolled-back';
+      } catch (error) {
+        results[index].error = `Rollback failed: ${errorMessage(error)}`;
+      }
+    }
+  }
+
+  const status = REVIEW_STATUS[verdict];
+  let verdictResult: { verdict: ReviewVerdict; applied: boolean; status?: ParticipantStatus; error?: string } = {
+    verdict,
+    applied: status === undefined
+  };
+  if (failed > 0 && status) {
+    verdictResult.error = `Skipped because ${failed} comment(s) failed`;
+  } else if (status) {
+    try {
+      const participant = status === 'APPROVED'
+        ? (await api.post(`/projects/${project}/repos/${repository}/pull-requests/${prId}/approve`)).data
+        : await setParticipantStatus(api, params, status);
+      verdictResult = { verdict, applied: true, status: participant.status };
+    } catch (error) {
+      verdictResult.error = errorMessage(error);
+    }
+  }
+
+  const summary = {
+    posted: results.filter(result => result.status === 'posted').length,
+    failed,
+    rolledBack: results.filter(result => result.status === 'rolled-back').length,
+    verdict: verdictResult,
+    comments: results
+  };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }]
   };
 }
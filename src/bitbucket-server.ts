@@ -2,45 +2,102 @@
 
   import { Server } from '@modelcontextprotocol/sdk/server/index.js';
   import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+  import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
   import {
     CallToolRequestSchema,
-    ErrorCode,
     ListToolsRequestSchema,
-    McpError,
   } from '@modelcontextprotocol/sdk/types.js';
-  import axios, { AxiosInstance } from 'axios';
+  import { AxiosInstance } from 'axios';
   import winston from 'winston';
 
   import {
     BitbucketConfig,
     PullRequestInput,
+    PullRequestUpdateInput,
     PullRequestParams,
+    CommitTarget,
+    PullRequestFilters,
     MergeOptions,
-    CommentOptions
+    CommentOptions,
+    PageOptions,
+    ResponseFormat,
+    TransportMode
   } from './types.js';
+  import { RESPONSE_FORMATS } from './formatting.js';
+  import { DEFAULT_SESSION_IDLE_TIMEOUT_MS, startHttpServer, USER_TOKEN_CLIENT_ID } from './http-server.js';
+  import { createApiClient, createUserClientCache } from './api-clients.js';
+  import { createHttpsAgent, readAuthConfig, readTlsConfig } from './auth.js';
+  import { DEFAULT_RETRY } from './retry.js';
+  import { classifiedError, classifyError, errorLogFields, errorResponse } from './error-responses.js';
 
   import {
+    whoami,
     createPullRequest,
+    updatePullRequest,
     getPullRequest,
     mergePullRequest,
+    canMergePullRequest,
     declinePullRequest,
     addComment,
     getDiff,
+    getPullRequestChanges,
     getReviews,
     listRepositories,
     listPullRequests,
+    getMyPullRequests,
     listBranches,
+    createBranch,
+    deleteBranch,
+    getDefaultBranch,
+    setDefaultBranch,
+    listTags,
+    createTag,
     getRepositoryDetails,
     addInlineComment,
+    suggestCodeChange,
+    submitReview,
+    editComment,
+    deleteComment,
+    getCommentThread,
+    reactToComment,
+    listTasks,
+    createTask,
+    setTaskState,
     getRepositoryArchive,
+    listFiles,
+    getFileContent,
+    compareRefs,
+    searchCode,
+    listCommits,
+    getCommit,
+    getCommitChanges,
+    getCommitDiff,
+    listPullRequestCommits,
+    getBuildStatus,
+    listInsightReports,
+    getInsightAnnotations,
+    publishInsightReport,
+    notFoundHint,
     getPullRequestComments,
     approvePullRequest,
     unapprovePullRequest,
+    setReviewStatus,
+    listParticipants,
+    updateReviewers,
   } from './bitbucket-api.js';
 
+  const formatProperty = {
+    type: 'string',
+    enum: RESPONSE_FORMATS,
+    description: 'Response format: raw Bitbucket JSON, compact summary JSON, or markdown (default is BITBUCKET_RESPONSE_FORMAT or raw)'
+  };
+
+  const LINE_COUNTS_DESCRIPTION =
+    'Also count added/removed lines per file, fetching each file\'s diff; null when Bitbucket truncated it (default false)';
+
   // Logger configuration
   const logger = winston.createLogger({
-    level: 'info',
+    level: process.env.BITBUCKET_LOG_LEVEL ?? 'info',
     format: winston.format.json(),
     transports: [
       new winston.transports.File({ filename: 'bitbucket.log' })
@@ -49,52 +106,105 @@
 
   export class BitbucketServer {
     private readonly server: Server;
-    private readonly api: AxiosInstance;
+    private readonly api?: AxiosInstance;
+    private readonly userApi: (token: string) => AxiosInstance;
     private readonly config: BitbucketConfig;
 
     constructor() {
-      this.server = new Server(
-        {
-          name: 'bitbucket-server-mcp-server',
-          version: '1.0.0',
-        },
-        {
-          capabilities: {
-            tools: {},
-          },
-        }
-      );
-
       // Load config from environment variables
       this.config = {
         baseUrl: process.env.BITBUCKET_URL ?? '',
-        token: process.env.BITBUCKET_TOKEN,
-        username: process.env.BITBUCKET_USERNAME,
-        password: process.env.BITBUCKET_PASSWORD,
-        defaultProject: process.env.BITBUCKET_DEFAULT_PROJECT
+        auth: readAuthConfig(process.env),
+        tls: readTlsConfig(process.env),
+        timeoutMs: Number(process.env.BITBUCKET_TIMEOUT_MS ?? 30000),
+        retry: {
+          maxAttempts: Number(process.env.BITBUCKET_MAX_ATTEMPTS ?? DEFAULT_RETRY.maxAttempts),
+          baseDelayMs: Number(process.env.BITBUCKET_RETRY_BASE_DELAY_MS ?? DEFAULT_RETRY.baseDelayMs),
+          maxDelayMs: Number(process.env.BITBUCKET_RETRY_MAX_DELAY_MS ?? DEFAULT_RETRY.maxDelayMs)
+        },
+        defaultProject: process.env.BITBUCKET_DEFAULT_PROJECT,
+        responseFormat: process.env.BITBUCKET_RESPONSE_FORMAT as ResponseFormat | undefined,
+        transport: (process.env.BITBUCKET_MCP_TRANSPORT ?? 'stdio') as TransportMode,
+        httpHost: process.env.BITBUCKET_MCP_HOST ?? '127.0.0.1',
+        httpPort: Number(process.env.BITBUCKET_MCP_PORT ?? 3000),
+        sessionIdleTimeoutMs: Number(process.env.BITBUCKET_MCP_SESSION_IDLE_TIMEOUT_MS ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS),
+        requireUserToken: process.env.BITBUCKET_REQUIRE_USER_TOKEN === 'true'
       };
 
       if (!this.config.baseUrl) {
         throw new Error('BITBUCKET_URL is required');
       }
 
-      if (!this.config.token && !(this.config.username && this.config.password)) {
-        throw new Error('Either BITBUCKET_TOKEN or BITBUCKET_USERNAME/PASSWORD is required');
+      // A shared deployment that requires every client to bring its own token needs none itself
+      const perUserOnly = this.config.requireUserToken && this.config.transport === 'http';
+      if (!perUserOnly && !this.config.auth) {
+        throw new Error(
+          'Either BITBUCKET_TOKEN or BITBUCKET_USERNAME/PASSWORD is required, or OAuth or client certificate credentials (see BITBUCKET_AUTH_MODE)'
+        );
       }
 
-      this.api = axios.create({
-        baseURL: `${this.config.baseUrl}/rest/api/latest`,
-        headers:{
-              Authorization: `Bearer ${this.config.token}`,
-              'X-Atlassian-Token': 'no-check'
-            },
-        auth: this.config.username && this.config.password
-          ? { username: this.config.username, password: this.config.password }
-          : undefined,
-      });
+      if (this.config.responseFormat && !RESPONSE_FORMATS.includes(this.config.responseFormat)) {
+        throw new Error(`BITBUCKET_RESPONSE_FORMAT must be one of: ${RESPONSE_FORMATS.join(', ')}`);
+      }
 
-      this.setupToolHandlers();
-      this.server.onerror = (error) => logger.error('[MCP Error]', error);
+      if (!['stdio', 'http'].includes(this.config.transport ?? 'stdio')) {
+        throw new Error('BITBUCKET_MCP_TRANSPORT must be one of: stdio, http');
+      }
+
+      if (!Number.isInteger(this.config.httpPort) || (this.config.httpPort ?? 0) < 0) {
+        throw new Error('BITBUCKET_MCP_PORT must be a port number');
+      }
+
+      if (!Number.isFinite(this.config.sessionIdleTimeoutMs) || (this.config.sessionIdleTimeoutMs ?? 0) <= 0) {
+        throw new Error('BITBUCKET_MCP_SESSION_IDLE_TIMEOUT_MS must be a positive number of milliseconds');
+      }
+
+      if (!Number.isFinite(this.config.timeoutMs) || (this.config.timeoutMs ?? 0) < 0) {
+        throw new Error('BITBUCKET_TIMEOUT_MS must be a number of milliseconds');
+      }
+
+      const { maxAttempts, baseDelayMs, maxDelayMs } = this.config.retry ?? DEFAULT_RETRY;
+      if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        throw new Error('BITBUCKET_MAX_ATTEMPTS must be a positive whole number');
+      }
+      if (![baseDelayMs, maxDelayMs].every(delay => Number.isFinite(delay) && delay >= 0)) {
+        throw new Error('BITBUCKET_RETRY_BASE_DELAY_MS and BITBUCKET_RETRY_MAX_DELAY_MS must be numbers of milliseconds');
+      }
+
+      const { baseUrl, auth, tls, timeoutMs, retry } = this.config;
+      const clientOptions = { httpsAgent: tls ? createHttpsAgent(tls) : undefined, timeoutMs, retry, logger };
+      if (auth) {
+        this.api = createApiClient(baseUrl, auth, clientOptions);
+      }
+      this.userApi = createUserClientCache(token => createApiClient(baseUrl, { mode: 'token', token }, clientOptions));
+
+      this.server = this.createServer();
+    }
+
+    // One MCP server per connection: stdio has a single one, HTTP mode one per session
+    private createServer() {
+      const server = new Server(
+        {
+          name: 'bitbucket-server-mcp-server',
+          version: '1.0.0',
+        },
+        {
+          capabilities: {
+            tools: {},
+          },
+        }
+      );
+      this.setupToolHandlers(server);
+      server.onerror = (error) => logger.error('[MCP Error]', error);
+      return server;
+    }
+
+    // Act as the user whose token came with the request, else as the configured identity
+    private apiFor(authInfo?: AuthInfo): AxiosInstance | undefined {
+      if (authInfo?.clientId === USER_TOKEN_CLIENT_ID) {
+        return this.userApi(authInfo.token);
+      }
+      return this.config.requireUserToken && this.config.transport === 'http' ? undefined : this.api;
     }
 
     private isPullRequestInput(args: unknown): args is PullRequestInput {
@@ -110,44 +220,234 @@
         (input.reviewers === undefined || Array.isArray(input.reviewers));
     }
 
-    private setupToolHandlers() {
-      this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    private isPullRequestUpdateInput(args: unknown): args is PullRequestUpdateInput {
+      const input = args as Partial<PullRequestUpdateInput>;
+      return typeof args === 'object' &&
+        args !== null &&
+        typeof input.project === 'string' &&
+        typeof input.repository === 'string' &&
+        typeof input.prId === 'number' &&
+        (input.title === undefined || typeof input.title === 'string') &&
+        (input.description === undefined || typeof input.description === 'string') &&
+        (input.targetBranch === undefined || typeof input.targetBranch === 'string') &&
+        (input.draft === undefined || typeof input.draft === 'boolean') &&
+        (input.reviewers === undefined || Array.isArray(input.reviewers)) &&
+        (input.version === undefined || typeof input.version === 'number');
+    }
+
+    private setupToolHandlers(server: Server) {
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
         tools: [
+          {
+            name: 'whoami',
+            description: 'Report the authenticated Bitbucket user, how it authenticated, and its permissions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Also report the permission on this project' },
+                repository: { type: 'string', description: 'Also report the permission on this repository (requires project or BITBUCKET_DEFAULT_PROJECT)' }
+              }
+            }
+          },
           {
             name: 'list_repositories',
-            description: 'List all repositories in a Bitbucket project',
+            description: 'List repositories in a Bitbucket project, following pagination',
             inputSchema: {
               type: 'object',
               properties: {
-                project: { type: 'string', description: 'Bitbucket project key' }
+                project: { type: 'string', description: 'Bitbucket project key' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
               },
               required: ['project']
             }
           },
           {
             name: 'list_pull_requests',
-            description: 'List all pull requests for a repository in a Bitbucket project',
+            description: 'List pull requests for a repository in a Bitbucket project, following pagination',
             inputSchema: {
               type: 'object',
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
-                repository: { type: 'string', description: 'Repository slug' }
+                repository: { type: 'string', description: 'Repository slug' },
+                state: {
+                  type: 'string',
+                  enum: ['OPEN', 'MERGED', 'DECLINED', 'ALL'],
+                  description: 'Pull request state (default is OPEN)'
+                },
+                direction: {
+                  type: 'string',
+                  enum: ['INCOMING', 'OUTGOING'],
+                  description: 'Whether "at" refers to the target (INCOMING, default) or source (OUTGOING) branch'
+                },
+                at: { type: 'string', description: 'Only pull requests to or from this branch (name or full ref)' },
+                author: { type: 'string', description: 'Only pull requests authored by this username' },
+                reviewer: { type: 'string', description: 'Only pull requests with this username as reviewer' },
+                order: {
+                  type: 'string',
+                  enum: ['NEWEST', 'OLDEST'],
+                  description: 'Sort order (default is NEWEST)'
+                },
+                filterText: { type: 'string', description: 'Only pull requests whose title or description contains this text' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
               },
               required: ['project', 'repository']
             }
           },
+          {
+            name: 'get_my_pull_requests',
+            description: 'List pull requests across all repositories that involve the authenticated user, e.g. a review inbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                role: {
+                  type: 'string',
+                  enum: ['AUTHOR', 'REVIEWER', 'PARTICIPANT'],
+                  description: 'Only pull requests where the user has this role'
+                },
+                state: {
+                  type: 'string',
+                  enum: ['OPEN', 'MERGED', 'DECLINED'],
+                  description: 'Pull request state (default is OPEN)'
+                },
+                participantStatus: {
+                  type: 'string',
+                  enum: ['UNAPPROVED', 'NEEDS_WORK', 'APPROVED'],
+                  description: "Only pull requests where the user's review status is this"
+                },
+                order: {
+                  type: 'string',
+                  enum: ['NEWEST', 'OLDEST', 'PARTICIPANT_STATUS', 'CLOSED_DATE'],
+                  description: 'Sort order (default is NEWEST)'
+                },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: {
+                  ...formatProperty,
+                  description: 'Response format: raw Bitbucket JSON, compact summary JSON, or markdown (default is BITBUCKET_RESPONSE_FORMAT or summary)'
+                }
+              }
+            }
+          },
           {
             name: 'list_branches',
-            description: 'List all branches in a repository',
+            description: 'List branches in a repository, following pagination',
             inputSchema: {
               type: 'object',
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
-                repository: { type: 'string', description: 'Repository slug' }
+                repository: { type: 'string', description: 'Repository slug' },
+                filterText: { type: 'string', description: 'Only branches whose name contains this text' },
+                orderBy: {
+                  type: 'string',
+                  enum: ['ALPHABETICAL', 'MODIFICATION'],
+                  description: 'Sort alphabetically or by most recently modified first'
+                },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
               },
               required: ['project', 'repository']
             }
           },
+          {
+            name: 'create_branch',
+            description: 'Create a branch from a branch, tag or commit',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                name: { type: 'string', description: 'Name of the new branch, e.g. feature/login' },
+                startPoint: { type: 'string', description: 'Branch, tag or commit hash to branch from' },
+                format: formatProperty
+              },
+              required: ['repository', 'name', 'startPoint']
+            }
+          },
+          {
+            name: 'delete_branch',
+            description: 'Delete a branch',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                name: { type: 'string', description: 'Branch name' },
+                endPoint: {
+                  type: 'string',
+                  description: 'Commit hash the branch is expected to point at; the delete is refused if it has moved'
+                }
+              },
+              required: ['repository', 'name']
+            }
+          },
+          {
+            name: 'get_default_branch',
+            description: 'Get the default branch of a repository',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                format: formatProperty
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'set_default_branch',
+            description: 'Change the default branch of a repository',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                name: { type: 'string', description: 'Branch name' }
+              },
+              required: ['repository', 'name']
+            }
+          },
+          {
+            name: 'list_tags',
+            description: 'List tags in a repository, following pagination',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                filterText: { type: 'string', description: 'Only tags whose name contains this text' },
+                orderBy: {
+                  type: 'string',
+                  enum: ['ALPHABETICAL', 'MODIFICATION'],
+                  description: 'Sort alphabetically or by most recently modified first'
+                },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'create_tag',
+            description: 'Create a tag at a branch, tag or commit; with a message the tag is annotated',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                name: { type: 'string', description: 'Tag name, e.g. v1.2.0' },
+                startPoint: { type: 'string', description: 'Branch, tag or commit hash to tag' },
+                message: { type: 'string', description: 'Tag message' },
+                format: formatProperty
+              },
+              required: ['repository', 'name', 'startPoint']
+            }
+          },
           {
             name: 'get_repository_details',
             description: 'Get details of a repository',
@@ -155,7 +455,8 @@
               type: 'object',
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
-                repository: { type: 'string', description: 'Repository slug' }
+                repository: { type: 'string', description: 'Repository slug' },
+                format: formatProperty
               },
               required: ['project', 'repository']
             }
@@ -176,11 +477,36 @@
                   type: 'array',
                   items: { type: 'string' },
                   description: 'List of reviewer usernames'
-                }
+                },
+                format: formatProperty
               },
               required: ['repository', 'title', 'sourceBranch', 'targetBranch']
             }
           },
+          {
+            name: 'update_pull_request',
+            description: 'Update the title, description, target branch, draft status or reviewers of a pull request; omitted fields are left unchanged',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                title: { type: 'string', description: 'New PR title' },
+                description: { type: 'string', description: 'New PR description' },
+                targetBranch: { type: 'string', description: 'New target branch name' },
+                draft: { type: 'boolean', description: 'Mark the pull request as draft or ready for review (Bitbucket 8.18+)' },
+                reviewers: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Replacement list of reviewer usernames (existing reviewers are kept when omitted)'
+                },
+                version: { type: 'number', description: 'Pull request version you last read; the call is refused if it has changed since' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId']
+            }
+          },
           {
             name: 'get_pull_request',
             description: 'Get pull request details',
@@ -189,7 +515,8 @@
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
-                prId: { type: 'number', description: 'Pull request ID' }
+                prId: { type: 'number', description: 'Pull request ID' },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -204,11 +531,30 @@
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
                 message: { type: 'string', description: 'Merge commit message' },
+                version: { type: 'number', description: 'Pull request version you last read; the call is refused if it has changed since' },
                 strategy: {
                   type: 'string',
                   enum: ['merge-commit', 'squash', 'fast-forward'],
                   description: 'Merge strategy to use'
-                }
+                },
+                checkFirst: {
+                  type: 'boolean',
+                  description: 'Run the merge pre-flight check first and refuse with its veto reasons (default false)'
+                },
+                format: formatProperty
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'can_merge_pull_request',
+            description: 'Check whether a pull request can be merged, listing conflicts and every veto from merge checks such as required approvals, builds and tasks',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' }
               },
               required: ['repository', 'prId']
             }
@@ -222,7 +568,9 @@
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
-                message: { type: 'string', description: 'Reason for declining' }
+                message: { type: 'string', description: 'Reason for declining' },
+                version: { type: 'number', description: 'Pull request version you last read; the call is refused if it has changed since' },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -237,21 +585,44 @@
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
                 text: { type: 'string', description: 'Comment text' },
-                parentId: { type: 'number', description: 'Parent comment ID for replies' }
+                parentId: { type: 'number', description: 'Parent comment ID for replies' },
+                format: formatProperty
               },
               required: ['repository', 'prId', 'text']
             }
           },
           {
             name: 'get_diff',
-            description: 'Get pull request diff',
+            description: 'Get pull request diff, optionally for a single file or glob and as structured hunks',
             inputSchema: {
               type: 'object',
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
-                contextLines: { type: 'number', description: 'Number of context lines' }
+                contextLines: { type: 'number', description: 'Number of context lines' },
+                path: { type: 'string', description: 'Only the diff of this file path or path glob (e.g. src/**/*.ts)' },
+                structured: {
+                  type: 'boolean',
+                  description: 'Return JSON hunks with source/destination line numbers instead of a unified diff'
+                },
+                maxSize: { type: 'number', description: 'Maximum characters to return before truncating (default 100000)' }
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'get_pull_request_changes',
+            description: 'List the files changed in a pull request with change type, and optionally added/removed line counts',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                lineCounts: { type: 'boolean', description: LINE_COUNTS_DESCRIPTION },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
               },
               required: ['repository', 'prId']
             }
@@ -264,7 +635,10 @@
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
-                prId: { type: 'number', description: 'Pull request ID' }
+                prId: { type: 'number', description: 'Pull request ID' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -280,22 +654,23 @@
                 prId: { type: 'number', description: 'Pull request ID' },
                 text: { type: 'string', description: 'Comment text' },
                 filePath: { type: 'string', description: 'Path to the file in the repository' },
-                line: { type: 'number', description: 'Line number to comment on' },
+                line: { type: 'number', description: 'Line number to comment on (new file line, or old file line for removed lines)' },
                 lineType: {
                   type: 'string',
                   enum: ['CONTEXT', 'ADDED', 'REMOVED'],
-                  description: 'Type of line (default is CONTEXT)'
+                  description: 'Type of line (inferred from the diff when omitted)'
                 },
                 startColumn: { type: 'number', description: 'Starting column for code highlight (optional)' },
                 endColumn: { type: 'number', description: 'Ending column for code highlight (optional)' },
-                parentId: { type: 'number', description: 'Parent comment ID for replies' }
+                parentId: { type: 'number', description: 'Parent comment ID for replies' },
+                format: formatProperty
               },
               required: ['repository', 'prId', 'text', 'filePath', 'line']
             }
           },
           {
             name: 'suggest_code_change',
-            description: 'Add a code suggestion comment to a file in a pull request',
+            description: 'Suggest replacing one or more lines of a file in a pull request, using Bitbucket\'s applicable suggestion format where supported',
             inputSchema: {
               type: 'object',
               properties: {
@@ -303,19 +678,211 @@
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
                 filePath: { type: 'string', description: 'Path to the file in the repository' },
-                line: { type: 'number', description: 'Line number to comment on' },
+                line: { type: 'number', description: 'First line to replace' },
+                endLine: { type: 'number', description: 'Last line to replace, for multi-line suggestions (default is line)' },
                 lineType: {
                   type: 'string',
                   enum: ['CONTEXT', 'ADDED', 'REMOVED'],
-                  description: 'Type of line (default is CONTEXT)'
+                  description: 'Type of line (inferred from the diff when omitted)'
                 },
                 message: { type: 'string', description: 'Comment message explaining the suggestion (optional)' },
-                suggestedCode: { type: 'string', description: 'The suggested code' },
-                parentId: { type: 'number', description: 'Parent comment ID for replies' }
+                suggestedCode: { type: 'string', description: 'Code replacing the selected lines' },
+                parentId: { type: 'number', description: 'Parent comment ID for replies' },
+                format: formatProperty
               },
               required: ['repository', 'prId', 'filePath', 'line', 'suggestedCode']
             }
           },
+          {
+            name: 'submit_review',
+            description: 'Submit a complete review: post many inline and general comments, then approve, mark as needs work, or leave comments only. Every inline anchor is checked against the diff before anything is posted',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                comments: {
+                  type: 'array',
+                  description: 'Comments to post; those with filePath and line are inline, the rest general',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      text: { type: 'string', description: 'Comment text' },
+                      filePath: { type: 'string', description: 'Path to the file in the repository' },
+                      line: { type: 'number', description: 'Line number to comment on' },
+                      endLine: { type: 'number', description: 'Last line of a multi-line comment' },
+                      lineType: {
+                        type: 'string',
+                        enum: ['CONTEXT', 'ADDED', 'REMOVED'],
+                        description: 'Type of line (inferred from the diff when omitted)'
+                      },
+                      parentId: { type: 'number', description: 'Parent comment ID for replies' }
+                    },
+                    required: ['text']
+                  }
+                },
+                verdict: {
+                  type: 'string',
+                  enum: ['approve', 'needs-work', 'comment'],
+                  description: 'Review outcome applied after all comments are posted (default is comment)'
+                },
+                concurrency: { type: 'number', description: 'Maximum comments posted in parallel (default 4)' },
+                rollbackOnFailure: {
+                  type: 'boolean',
+                  description: 'Delete already-posted comments if any comment fails (default false)'
+                }
+              },
+              required: ['repository', 'prId', 'comments']
+            }
+          },
+          {
+            name: 'edit_comment',
+            description: 'Edit the text of a pull request comment',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                text: { type: 'string', description: 'New comment text' },
+                version: { type: 'number', description: 'Comment version you last read; the call is refused if it has changed since' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId', 'commentId', 'text']
+            }
+          },
+          {
+            name: 'delete_comment',
+            description: 'Delete a pull request comment',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                version: { type: 'number', description: 'Comment version you last read; the call is refused if it has changed since' }
+              },
+              required: ['repository', 'prId', 'commentId']
+            }
+          },
+          {
+            name: 'resolve_comment',
+            description: 'Resolve or reopen a pull request comment thread (Bitbucket 7.7+)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                resolved: { type: 'boolean', description: 'true to resolve, false to reopen (default true)' },
+                version: { type: 'number', description: 'Comment version you last read; the call is refused if it has changed since' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId', 'commentId']
+            }
+          },
+          {
+            name: 'set_comment_blocker',
+            description: 'Mark a pull request comment as a blocker (task) or back to a normal comment',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                blocker: { type: 'boolean', description: 'true for a blocker, false for a normal comment (default true)' },
+                version: { type: 'number', description: 'Comment version you last read; the call is refused if it has changed since' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId', 'commentId']
+            }
+          },
+          {
+            name: 'react_to_comment',
+            description: 'Add or remove an emoji reaction on a pull request comment',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                emoticon: { type: 'string', description: 'Reaction name, e.g. thumbsup, heart, tada' },
+                remove: { type: 'boolean', description: 'Remove the reaction instead of adding it (default false)' }
+              },
+              required: ['repository', 'prId', 'commentId', 'emoticon']
+            }
+          },
+          {
+            name: 'get_comment_thread',
+            description: 'Get a pull request comment with its nested replies',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId', 'commentId']
+            }
+          },
+          {
+            name: 'list_tasks',
+            description: 'List tasks on a pull request (blocker comments on Bitbucket 8+)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                state: {
+                  type: 'string',
+                  enum: ['OPEN', 'RESOLVED', 'ALL'],
+                  description: 'Task state to list (default is OPEN)'
+                },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'create_task',
+            description: 'Create a task attached to a pull request comment',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                commentId: { type: 'number', description: 'Comment ID to attach the task to' },
+                text: { type: 'string', description: 'Task text' }
+              },
+              required: ['repository', 'prId', 'commentId', 'text']
+            }
+          },
+          {
+            name: 'resolve_task',
+            description: 'Resolve or reopen a pull request task',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                taskId: { type: 'number', description: 'Task ID, as returned by list_tasks' },
+                resolved: { type: 'boolean', description: 'true to resolve, false to reopen (default true)' }
+              },
+              required: ['repository', 'prId', 'taskId']
+            }
+          },
           {
             name: 'delete_pull_request',
             description: 'Delete a pull request by declining it',
@@ -325,7 +892,9 @@
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
                 prId: { type: 'number', description: 'Pull request ID' },
-                message: { type: 'string', description: 'Reason for deleting/declining' }
+                message: { type: 'string', description: 'Reason for deleting/declining' },
+                version: { type: 'number', description: 'Pull request version you last read; the call is refused if it has changed since' },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -338,7 +907,8 @@
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
-                prId: { type: 'number', description: 'Pull request ID' }
+                prId: { type: 'number', description: 'Pull request ID' },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -351,7 +921,66 @@
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
-                prId: { type: 'number', description: 'Pull request ID' }
+                prId: { type: 'number', description: 'Pull request ID' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'set_review_status',
+            description: 'Set your own review status on a pull request: approved, needs work, or unapproved',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                status: {
+                  type: 'string',
+                  enum: ['APPROVED', 'NEEDS_WORK', 'UNAPPROVED'],
+                  description: 'Review status to set'
+                },
+                format: formatProperty
+              },
+              required: ['repository', 'prId', 'status']
+            }
+          },
+          {
+            name: 'list_participants',
+            description: 'List the author, reviewers and participants of a pull request with their review status',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'update_reviewers',
+            description: 'Add or remove reviewers on an existing pull request',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                version: { type: 'number', description: 'Pull request version you last read; the call is refused if it has changed since' },
+                add: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Usernames to add as reviewers'
+                },
+                remove: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Usernames to remove from reviewers'
+                },
+                format: formatProperty
               },
               required: ['repository', 'prId']
             }
@@ -374,6 +1003,279 @@
               required: ['project', 'repository']
             }
           },
+          {
+            name: 'list_files',
+            description: 'List files and directories in a repository path at a branch, tag or commit',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                path: { type: 'string', description: 'Directory path (default is the repository root)' },
+                at: { type: 'string', description: 'Branch, tag or commit (default is the default branch)' },
+                recursive: { type: 'boolean', description: 'List every file below the path instead of its direct children (default false)' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'get_file_content',
+            description: 'Get the content of a file at a branch, tag or commit, optionally a line range',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                path: { type: 'string', description: 'File path in the repository' },
+                at: { type: 'string', description: 'Branch, tag or commit, e.g. a pull request source commit (default is the default branch)' },
+                startLine: { type: 'number', description: 'First line to return (default 1)' },
+                endLine: { type: 'number', description: 'Last line to return (default is the end of the file)' },
+                lineNumbers: { type: 'boolean', description: 'Prefix each line with its line number (default false)' },
+                maxSize: { type: 'number', description: 'Maximum characters to return before truncating at a line (default 100000)' }
+              },
+              required: ['repository', 'path']
+            }
+          },
+          {
+            name: 'compare_refs',
+            description: 'Preview what a pull request from one ref into another would contain: commits, changed files and optionally the diff',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key of the target repository' },
+                repository: { type: 'string', description: 'Target repository slug' },
+                from: { type: 'string', description: 'Source branch, tag or commit, e.g. feature/login' },
+                to: { type: 'string', description: 'Target branch, tag or commit, e.g. master' },
+                fromProject: { type: 'string', description: 'Project key of the fork containing the source ref (default is project)' },
+                fromRepository: { type: 'string', description: 'Slug of the fork containing the source ref' },
+                includeDiff: { type: 'boolean', description: 'Also return the diff (default false)' },
+                lineCounts: { type: 'boolean', description: LINE_COUNTS_DESCRIPTION },
+                contextLines: { type: 'number', description: 'Number of context lines' },
+                path: { type: 'string', description: 'Only the diff of this file path or path glob (e.g. src/**/*.ts)' },
+                structured: {
+                  type: 'boolean',
+                  description: 'Return JSON hunks with source/destination line numbers instead of a unified diff'
+                },
+                maxSize: { type: 'number', description: 'Maximum characters to return before truncating (default 100000)' },
+                limit: { type: 'number', description: 'Maximum number of commits and of changed files to return (omit to fetch all pages)' },
+                commitsStart: { type: 'number', description: 'Offset into the commits, e.g. the commits nextPageStart from a previous call' },
+                changesStart: { type: 'number', description: 'Offset into the changed files, e.g. the changed files nextPageStart from a previous call' },
+                format: formatProperty
+              },
+              required: ['repository', 'from', 'to']
+            }
+          },
+          {
+            name: 'search_code',
+            description: 'Search code across projects and repositories, returning file paths with highlighted matching lines',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search terms; may include qualifiers such as project:, repo:, ext: and lang:'
+                },
+                project: { type: 'string', description: 'Only search this project (default is all projects)' },
+                repository: { type: 'string', description: 'Only search this repository (requires project or BITBUCKET_DEFAULT_PROJECT)' },
+                extension: { type: 'string', description: 'Only files with this extension, e.g. ts' },
+                language: { type: 'string', description: 'Only files in this language, e.g. java' },
+                limit: { type: 'number', description: 'Maximum number of files to return (default 25)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
+              },
+              required: ['query']
+            }
+          },
+          {
+            name: 'list_commits',
+            description: 'List commits in a repository, newest first, optionally for a branch, range or path',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                branch: { type: 'string', description: 'Branch to list history of (default is the default branch)' },
+                until: { type: 'string', description: 'Commit or ref to list history back from (overrides branch)' },
+                since: { type: 'string', description: 'Exclude commits reachable from this commit or ref' },
+                path: { type: 'string', description: 'Only commits touching this file or directory' },
+                merges: {
+                  type: 'string',
+                  enum: ['include', 'exclude', 'only'],
+                  description: 'How to treat merge commits (default is include)'
+                },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'get_commit',
+            description: 'Get a commit with its message, author and parents',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                format: formatProperty
+              },
+              required: ['repository', 'commitId']
+            }
+          },
+          {
+            name: 'get_commit_changes',
+            description: 'List the files changed by a commit with change type, and optionally added/removed line counts',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                lineCounts: { type: 'boolean', description: LINE_COUNTS_DESCRIPTION },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
+              },
+              required: ['repository', 'commitId']
+            }
+          },
+          {
+            name: 'get_commit_diff',
+            description: 'Get the diff of a commit, optionally for a single file or glob and as structured hunks',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                contextLines: { type: 'number', description: 'Number of context lines' },
+                path: { type: 'string', description: 'Only the diff of this file path or path glob (e.g. src/**/*.ts)' },
+                structured: {
+                  type: 'boolean',
+                  description: 'Return JSON hunks with source/destination line numbers instead of a unified diff'
+                },
+                maxSize: { type: 'number', description: 'Maximum characters to return before truncating (default 100000)' }
+              },
+              required: ['repository', 'commitId']
+            }
+          },
+          {
+            name: 'list_pull_request_commits',
+            description: 'List the commits in a pull request',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                prId: { type: 'number', description: 'Pull request ID' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
+              },
+              required: ['repository', 'prId']
+            }
+          },
+          {
+            name: 'get_build_status',
+            description: 'Get CI build statuses for a commit or the latest commit of a pull request, with counts per state',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                prId: { type: 'number', description: 'Pull request ID, to use the latest commit of its source branch instead of commitId' },
+                key: { type: 'string', description: 'Build key, to get only that build (omit to list every build)' }
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'list_insight_reports',
+            description: 'List Code Insights reports (static analysis, coverage, AI review) for a commit or pull request',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                prId: { type: 'number', description: 'Pull request ID, to use the latest commit of its source branch instead of commitId' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' }
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'get_insight_annotations',
+            description: 'Get Code Insights annotations for a commit or pull request, for one report or all reports',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                prId: { type: 'number', description: 'Pull request ID, to use the latest commit of its source branch instead of commitId' },
+                reportKey: { type: 'string', description: 'Only annotations of this report' }
+              },
+              required: ['repository']
+            }
+          },
+          {
+            name: 'publish_insight_report',
+            description: 'Publish a Code Insights report with annotations on a commit or pull request, replacing any report with the same key',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: { type: 'string', description: 'Bitbucket project key' },
+                repository: { type: 'string', description: 'Repository slug' },
+                commitId: { type: 'string', description: 'Commit hash' },
+                prId: { type: 'number', description: 'Pull request ID, to use the latest commit of its source branch instead of commitId' },
+                reportKey: { type: 'string', description: 'Unique report key, e.g. com.example.ai-review' },
+                title: { type: 'string', description: 'Report title' },
+                details: { type: 'string', description: 'Report description' },
+                result: { type: 'string', enum: ['PASS', 'FAIL'], description: 'Overall result' },
+                reporter: { type: 'string', description: 'Name of the tool producing the report' },
+                link: { type: 'string', description: 'URL of the full report' },
+                data: {
+                  type: 'array',
+                  description: 'Up to 6 key figures shown on the report',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      title: { type: 'string' },
+                      type: {
+                        type: 'string',
+                        enum: ['BOOLEAN', 'DATE', 'DURATION', 'LINK', 'NUMBER', 'PERCENTAGE', 'TEXT']
+                      },
+                      value: {}
+                    },
+                    required: ['title', 'value']
+                  }
+                },
+                annotations: {
+                  type: 'array',
+                  description: 'Findings to attach to files and lines',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      message: { type: 'string' },
+                      severity: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+                      path: { type: 'string', description: 'File path; omit for a report-wide annotation' },
+                      line: { type: 'number', description: 'Line number in the file; omit or 0 for the whole file' },
+                      type: { type: 'string', enum: ['BUG', 'CODE_SMELL', 'VULNERABILITY'] },
+                      externalId: { type: 'string' },
+                      link: { type: 'string' }
+                    },
+                    required: ['message', 'severity']
+                  }
+                }
+              },
+              required: ['repository', 'reportKey', 'title']
+            }
+          },
           {
             name: 'get_pull_request_comments',
             description: 'Get all comments on a pull request',
@@ -382,7 +1284,10 @@
               properties: {
                 project: { type: 'string', description: 'Bitbucket project key' },
                 repository: { type: 'string', description: 'Repository slug' },
-                prId: { type: 'number', description: 'Pull request ID' }
+                prId: { type: 'number', description: 'Pull request ID' },
+                limit: { type: 'number', description: 'Maximum number of items to return (omit to fetch all pages)' },
+                start: { type: 'number', description: 'Offset to start from, e.g. nextPageStart from a previous call' },
+                format: formatProperty
               },
               required: ['project', 'repository', 'prId']
             }
@@ -390,88 +1295,251 @@
         ]
       }));
 
-      this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const api = this.apiFor(extra.authInfo);
+        if (!api) {
+          return errorResponse(classifiedError(
+            'authentication-failed',
+            'A Bitbucket personal access token is required; send it in the X-Bitbucket-Token or Authorization: Bearer header.'
+          ));
+        }
+
         const { name: toolName, arguments: toolInput } = request.params;
         const { project: inputProject, repository, prId, ...options } = toolInput as Record<string, any>;
         const project = inputProject ?? this.config.defaultProject;
 
-        if (!project && ['list_repositories', 'create_pull_request', 'list_pull_requests', 'list_branches', 'get_repository_details', 'get_pull_request', 'merge_pull_request', 'decline_pull_request', 'add_comment', 'get_diff', 'get_reviews', 'add_inline_comment', 'suggest_code_change', 'delete_pull_request', 'get_repository_archive', 'get_pull_request_comments', 'approve_pull_request', 'unapprove_pull_request'].includes(toolName)) {
-          return {
-            content: [{ type: 'error', text: 'Project key is required if BITBUCKET_DEFAULT_PROJECT is not set.' }]
-          };
+        if (!project && ['list_repositories', 'create_pull_request', 'update_pull_request', 'list_pull_requests', 'list_branches', 'create_branch', 'delete_branch', 'get_default_branch', 'set_default_branch', 'list_tags', 'create_tag', 'get_repository_details', 'get_pull_request', 'merge_pull_request', 'can_merge_pull_request', 'decline_pull_request', 'add_comment', 'get_diff', 'get_pull_request_changes', 'get_reviews', 'add_inline_comment', 'suggest_code_change', 'submit_review', 'edit_comment', 'delete_comment', 'resolve_comment', 'set_comment_blocker', 'react_to_comment', 'get_comment_thread', 'list_tasks', 'create_task', 'resolve_task', 'delete_pull_request', 'get_repository_archive', 'list_files', 'get_file_content', 'list_commits', 'get_commit', 'get_commit_changes', 'get_commit_diff', 'list_pull_request_commits', 'compare_refs', 'get_build_status', 'list_insight_reports', 'get_insight_annotations', 'publish_insight_report', 'get_pull_request_comments', 'approve_pull_request', 'unapprove_pull_request', 'set_review_status', 'list_participants', 'update_reviewers'].includes(toolName)) {
+          return errorResponse(classifiedError('validation', 'Project key is required if BITBUCKET_DEFAULT_PROJECT is not set.'));
+        }
+
+        if (['get_build_status', 'list_insight_reports', 'get_insight_annotations', 'publish_insight_report'].includes(toolName) &&
+          !options.commitId && prId === undefined) {
+          return errorResponse(classifiedError('validation', 'Either commitId or prId is required.'));
         }
 
         const prParams: PullRequestParams = { project, repository, prId };
+        const commitTarget: CommitTarget = { project, repository, commitId: options.commitId, prId };
+        const page: PageOptions = { limit: options.limit, start: options.start };
+        const responseFormat: ResponseFormat | undefined = options.format ?? this.config.responseFormat;
 
         try {
           switch (toolName) {
+            case 'whoami': {
+              const authMode = extra.authInfo?.clientId === USER_TOKEN_CLIENT_ID ? 'user-token' : this.config.auth?.mode;
+              return await whoami(api, authMode ?? 'token', repository ? project : inputProject, repository);
+            }
             case 'list_repositories':
-              return await listRepositories(this.api, project);
-            case 'list_pull_requests':
-              return await listPullRequests(this.api, project, repository);
-            case 'list_branches':
-              return await listBranches(this.api, project, repository);
+              return await listRepositories(api, project, page, responseFormat);
+            case 'list_pull_requests': {
+              const { state, direction, at, author, reviewer, order, filterText } = options;
+              const filters: PullRequestFilters = { state, direction, at, author, reviewer, order, filterText };
+              return await listPullRequests(api, project, repository, filters, page, responseFormat);
+            }
+            case 'get_my_pull_requests': {
+              const { role, state, participantStatus, order } = options;
+              return await getMyPullRequests(api, { role, state, participantStatus, order }, page, responseFormat);
+            }
+            case 'list_branches': {
+              const { filterText, orderBy } = options;
+              return await listBranches(api, project, repository, { filterText, orderBy }, page, responseFormat);
+            }
+            case 'create_branch': {
+              const { name, startPoint } = options;
+              return await createBranch(api, project, repository, { name, startPoint }, responseFormat);
+            }
+            case 'delete_branch':
+              return await deleteBranch(api, project, repository, options.name, options.endPoint);
+            case 'get_default_branch':
+              return await getDefaultBranch(api, project, repository, responseFormat);
+            case 'set_default_branch':
+              return await setDefaultBranch(api, project, repository, options.name);
+            case 'list_tags': {
+              const { filterText, orderBy } = options;
+              return await listTags(api, project, repository, { filterText, orderBy }, page, responseFormat);
+            }
+            case 'create_tag': {
+              const { name, startPoint, message } = options;
+              return await createTag(api, project, repository, { name, startPoint, message }, responseFormat);
+            }
             case 'get_repository_details':
-              return await getRepositoryDetails(this.api, project, repository);
+              return await getRepositoryDetails(api, project, repository, responseFormat);
             case 'create_pull_request':
               if (this.isPullRequestInput(toolInput)) {
-                return await createPullRequest(this.api, { ...toolInput, project });
+                return await createPullRequest(api, { ...toolInput, project }, responseFormat);
               }
-              return { content: [{ type: 'error', text: 'Invalid input for create_pull_request' }] };
+              return errorResponse(classifiedError('validation', 'Invalid input for create_pull_request'));
+            case 'update_pull_request': {
+              const input = { ...toolInput, project };
+              if (this.isPullRequestUpdateInput(input)) {
+                return await updatePullRequest(api, input, responseFormat);
+              }
+              return errorResponse(classifiedError('validation', 'Invalid input for update_pull_request'));
+            }
             case 'get_pull_request':
-              return await getPullRequest(this.api, prParams);
+              return await getPullRequest(api, prParams, responseFormat);
             case 'merge_pull_request':
-              return await mergePullRequest(this.api, prParams, options as MergeOptions);
+              return await mergePullRequest(api, prParams, options as MergeOptions, responseFormat);
+            case 'can_merge_pull_request':
+              return await canMergePullRequest(api, prParams);
             case 'decline_pull_request':
-              return await declinePullRequest(this.api, prParams, options.message as string);
+              return await declinePullRequest(api, prParams, { message: options.message, version: options.version }, responseFormat);
             case 'add_comment':
-              return await addComment(this.api, prParams, options as CommentOptions);
-            case 'get_diff':
-              return await getDiff(this.api, prParams, options.contextLines as number);
+              return await addComment(api, prParams, options as CommentOptions, responseFormat);
+            case 'get_diff': {
+              const { contextLines, path, structured, maxSize } = options;
+              return await getDiff(api, prParams, { contextLines, path, structured, maxSize });
+            }
+            case 'get_pull_request_changes':
+              return await getPullRequestChanges(api, prParams, page, options.lineCounts);
             case 'get_reviews':
-              return await getReviews(this.api, prParams);
+              return await getReviews(api, prParams, page, responseFormat);
             case 'add_inline_comment': {
               const { text, filePath, line, lineType, startColumn, endColumn, parentId } = options;
-              return await addInlineComment(this.api, prParams, { text, filePath, line, lineType, startColumn, endColumn, parentId });
+              return await addInlineComment(api, prParams, { text, filePath, line, lineType, startColumn, endColumn, parentId }, responseFormat);
             }
             case 'suggest_code_change': {
-              const { filePath, line, lineType, message, suggestedCode, parentId } = options;
-              // The 'text' property for suggest_code_change is the 'message' from inputSchema
-              return await addInlineComment(this.api, prParams, { text: message, filePath, line, lineType, suggestedCode, parentId });
+              const { filePath, line, endLine, lineType, message, suggestedCode, parentId } = options;
+              return await suggestCodeChange(api, prParams, { message, filePath, line, endLine, lineType, suggestedCode, parentId }, responseFormat);
             }
+            case 'submit_review': {
+              const { comments, verdict, concurrency, rollbackOnFailure } = options;
+              if (!Array.isArray(comments)) {
+                return errorResponse(classifiedError('validation', 'Invalid input for submit_review: comments must be an array'));
+              }
+              return await submitReview(api, prParams, { comments, verdict, concurrency, rollbackOnFailure });
+            }
+            case 'edit_comment':
+              return await editComment(api, prParams, options.commentId, { text: options.text }, options.version, responseFormat);
+            case 'delete_comment':
+              return await deleteComment(api, prParams, options.commentId, options.version);
+            case 'resolve_comment': {
+              const state = options.resolved === false ? 'OPEN' : 'RESOLVED';
+              return await editComment(api, prParams, options.commentId, { state }, options.version, responseFormat);
+            }
+            case 'set_comment_blocker': {
+              const severity = options.blocker === false ? 'NORMAL' : 'BLOCKER';
+              return await editComment(api, prParams, options.commentId, { severity }, options.version, responseFormat);
+            }
+            case 'react_to_comment':
+              return await reactToComment(api, prParams, options.commentId, options.emoticon, options.remove);
+            case 'get_comment_thread':
+              return await getCommentThread(api, prParams, options.commentId, responseFormat);
+            case 'list_tasks':
+              return await listTasks(api, prParams, options.state, page);
+            case 'create_task':
+              return await createTask(api, prParams, options.commentId, options.text);
+            case 'resolve_task':
+              return await setTaskState(api, prParams, options.taskId, options.resolved === false ? 'OPEN' : 'RESOLVED');
             case 'delete_pull_request': // Effectively decline
-              return await declinePullRequest(this.api, prParams, options.message as string);
+              return await declinePullRequest(api, prParams, { message: options.message, version: options.version }, responseFormat);
+            case 'set_review_status':
+              return await setReviewStatus(api, prParams, options.status, responseFormat);
+            case 'list_participants':
+              return await listParticipants(api, prParams, responseFormat);
+            case 'update_reviewers':
+              return await updateReviewers(api, prParams, { add: options.add, remove: options.remove, version: options.version }, responseFormat);
             case 'get_repository_archive': {
               const { format, at } = options;
-              return await getRepositoryArchive(this.api, project, repository, format, at);
+              return await getRepositoryArchive(api, project, repository, format, at);
+            }
+            case 'list_files': {
+              const { path, at, recursive } = options;
+              return await listFiles(api, project, repository, { path, at, recursive }, page);
+            }
+            case 'get_file_content': {
+              const { path, at, startLine, endLine, lineNumbers, maxSize } = options;
+              return await getFileContent(api, project, repository, path, { at, startLine, endLine, lineNumbers, maxSize });
+            }
+            case 'compare_refs': {
+              const { from, to, fromProject, fromRepository, includeDiff, lineCounts, contextLines, path, structured, maxSize } = options;
+              return await compareRefs(
+                api,
+                { project, repository, from, to, fromProject, fromRepository },
+                { includeDiff, lineCounts, contextLines, path, structured, maxSize },
+                { limit: options.limit, commitsStart: options.commitsStart, changesStart: options.changesStart },
+                responseFormat
+              );
+            }
+            case 'search_code': {
+              const { query, extension, language } = options;
+              return await searchCode(
+                api,
+                { query, project: repository ? project : inputProject, repository, extension, language },
+                page
+              );
+            }
+            case 'list_commits': {
+              const { branch, until, since, path, merges } = options;
+              return await listCommits(api, project, repository, { branch, until, since, path, merges }, page, responseFormat);
+            }
+            case 'get_commit':
+              return await getCommit(api, project, repository, options.commitId, responseFormat);
+            case 'get_commit_changes':
+              return await getCommitChanges(api, project, repository, options.commitId, page, options.lineCounts);
+            case 'get_commit_diff': {
+              const { commitId, contextLines, path, structured, maxSize } = options;
+              return await getCommitDiff(api, project, repository, commitId, { contextLines, path, structured, maxSize });
+            }
+            case 'list_pull_request_commits':
+              return await listPullRequestCommits(api, prParams, page, responseFormat);
+            case 'get_build_status':
+              return await getBuildStatus(api, commitTarget, options.key);
+            case 'list_insight_reports':
+              return await listInsightReports(api, commitTarget, page);
+            case 'get_insight_annotations':
+              return await getInsightAnnotations(api, commitTarget, options.reportKey);
+            case 'publish_insight_report': {
+              const { reportKey, title, details, result, reporter, link, data, annotations } = options;
+              return await publishInsightReport(
+                api,
+                commitTarget,
+                { key: reportKey, title, details, result, reporter, link, data, annotations }
+              );
             }
             case 'get_pull_request_comments':
-              return await getPullRequestComments(this.api, prParams);
+              return await getPullRequestComments(api, prParams, page, responseFormat);
             case 'approve_pull_request':
-              return await approvePullRequest(this.api, prParams);
+              return await approvePullRequest(api, prParams, responseFormat);
             case 'unapprove_pull_request':
-              return await unapprovePullRequest(this.api, prParams);
+              return await unapprovePullRequest(api, prParams, responseFormat);
             default:
-              return {
-                content: [{ type: 'error', text: `Unknown tool: ${toolName}` }]
-              };
+              return errorResponse(classifiedError('validation', `Unknown tool: ${toolName}`));
           }
-        } catch (error: any) {
-          logger.error('Tool execution error', { error });
-          if (axios.isAxiosError(error)) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Bitbucket API error: ${error.response?.data.message ?? error.message}`
-            );
+        } catch (error) {
+          const classified = classifyError(error);
+          if (classified.category === 'not-found') {
+            classified.hint = await notFoundHint(api, classified.exceptionName, project, repository) ?? classified.hint;
           }
-          throw error;
+          logger.error('Tool execution error', { tool: toolName, ...errorLogFields(error, classified) });
+          return errorResponse(classified);
         }
       });
     }
 
     async run() {
+      if (this.config.transport === 'http') {
+        await this.runHttp();
+        return;
+      }
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
       logger.info('Bitbucket MCP server running on stdio');
     }
+
+    private async runHttp() {
+      const host = this.config.httpHost ?? '127.0.0.1';
+      const port = this.config.httpPort ?? 3000;
+      const { sessionIdleTimeoutMs } = this.config;
+      const httpServer = await startHttpServer(() => this.createServer(), { host, port, sessionIdleTimeoutMs }, logger);
+      logger.info(`Bitbucket MCP server listening on http://${host}:${port}/mcp`);
+
+      const shutdown = (signal: string) => {
+        logger.info(`Received ${signal}, shutting down`);
+        httpServer.close()
+          .catch(error => logger.error('Error during shutdown', { error }))
+          .finally(() => process.exit(0));
+      };
+      process.once('SIGINT', () => shutdown('SIGINT'));
+      process.once('SIGTERM', () => shutdown('SIGTERM'));
+    }
   }
@@ -0,0 +1,27 @@
+// src/current-user.ts
+
+import { AxiosInstance } from 'axios';
+import { BitbucketUser } from './types.js';
+
+const users = new WeakMap<AxiosInstance, Promise<BitbucketUser>>();
+
+// The authenticated user, fetched once per API client. Bitbucket names the caller in the
+// X-AUSERNAME header of every response; the user record supplies the slug used in URLs.
+export function getCurrentUser(api: AxiosInstance): Promise<BitbucketUser> {
+  let user = users.get(api);
+  if (!user) {
+    user = (async () => {
+      const response = await api.get('/application-properties');
+      const username = response.headers['x-ausername'];
+      if (!username) {
+        throw new Error('Could not determine the authenticated Bitbucket user');
+      }
+      const matches = await api.get('/users', { params: { filter: username } });
+      const match = (matches.data.values ?? []).find((candidate: BitbucketUser) => candidate.name === username);
+      return match ?? { name: username, slug: username };
+    })();
+    user.catch(() => users.delete(api));
+    users.set(api, user);
+  }
+  return user;
+}
@@ -0,0 +1,183 @@
+// src/diff.ts
+
+import {
+  BitbucketDiff,
+  BitbucketFileDiff,
+  DiffLineAnchor,
+  StructuredFileDiff
+} from './types.js';
+import { InvalidAnchorError } from './errors.js';
+
+// Characters of diff returned before truncating, roughly 25k tokens
+export const DEFAULT_DIFF_MAX_SIZE = 100000;
+
+export function isGlob(pattern: string) {
+  return /[*?{]/.test(pattern);
+}
+
+// Translate a path glob (*, **, ?, {a,b}) into an anchored regular expression
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function fileDiffPath(file: BitbucketFileDiff) {
+  return file.destination?.toString ?? file.source?.toString ?? '';
+}
+
+// Count added and removed lines per file path
+export function diffStats(diff: BitbucketDiff) {
+  const stats = new Map<string, { added: number; removed: number }>();
+  for (const file of diff.diffs ?? []) {
+    const counts = { added: 0, removed: 0 };
+    for (const hunk of file.hunks ?? []) {
+      for (const segment of hunk.segments) {
+        if (segment.type === 'ADDED') counts.added += segment.lines.length;
+        if (segment.type === 'REMOVED') counts.removed += segment.lines.length;
+      }
+    }
+    stats.set(fileDiffPath(file), counts);
+  }
+  return stats;
+}
+
+export function toStructuredFileDiff(file: BitbucketFileDiff): StructuredFileDiff {
+  const srcPath = file.source?.toString;
+  return {
+    path: fileDiffPath(file),
+    ...(srcPath && srcPath !== file.destination?.toString ? { srcPath } : {}),
+    ...(file.binary ? { binary: true } : {}),
+    hunks: (file.hunks ?? []).map(({ sourceLine, sourceSpan, destinationLine, destinationSpan, segments, truncated }) => ({
+      sourceLine,
+      sourceSpan,
+      destinationLine,
+      destinationSpan,
+      segments: segments.map(segment => ({
+        type: segment.type,
+        lines: segment.lines.map(({ source, destination, line }) => ({ source, destination, line }))
+      })),
+      ...(truncated ? { truncated } : {})
+    })),
+    ...(file.truncated ? { truncated: true } : {})
+  };
+}
+
+function truncationNotice(shown: number, total: number) {
+  return `[Diff truncated: showing ${shown} of ${total} characters. ` +
+    'Narrow it with path, lower contextLines or raise maxSize.]';
+}
+
+// Cut a textual diff at the last whole line within maxSize
+export function limitDiffText(text: string, maxSize: number = DEFAULT_DIFF_MAX_SIZE) {
+  if (text.length <= maxSize) return text;
+  const cut = text.lastIndexOf('\n', maxSize);
+  const shown = text.slice(0, cut > 0 ? cut : maxSize);
+  return `${shown}\n\n${truncationNotice(shown.length, text.length)}`;
+}
+
+// Keep whole files while they fit within maxSize, so the result stays valid JSON. Paths whose
+// diff was never fetched because the cap was already reached are listed as omitted too.
+export function limitStructuredDiff(
+  files: StructuredFileDiff[],
+  maxSize: number = DEFAULT_DIFF_MAX_SIZE,
+  unfetched: string[] = []
+) {
+  const truncated = (kept: StructuredFileDiff[], omitted: string[]) => ({
+    files: kept,
+    truncated: true,
+    omittedFiles: omitted,
+    notice: `Diff truncated at ${maxSize} characters; request omitted files individually with path.`
+  });
+
+  const kept: StructuredFileDiff[] = [];
+  let size = 0;
+  for (const file of files) {
+    const fileSize = JSON.stringify(file).length;
+    if (size + fileSize > maxSize && kept.length > 0) {
+      return truncated(kept, [...files.slice(kept.length).map(omittedFile => omittedFile.path), ...unfetched]);
+    }
+    kept.push(file);
+    size += fileSize;
+  }
+  return unfetched.length > 0 ? truncated(kept, unfetched) : { files: kept, truncated: false };
+}
+
+// Every line of a file diff a comment can be anchored to. Removed lines only exist in
+// the source file, so they are addressed by source line number with fileType FROM.
+export function commentableLines(file: BitbucketFileDiff): DiffLineAnchor[] {
+  const anchors: DiffLineAnchor[] = [];
+  for (const hunk of file.hunks ?? []) {
+    for (const segment of hunk.segments) {
+      for (const diffLine of segment.lines) {
+        anchors.push(segment.type === 'REMOVED'
+          ? { line: diffLine.source, lineType: 'REMOVED', fileType: 'FROM' }
+          : { line: diffLine.destination, lineType: segment.type, fileType: 'TO' });
+      }
+    }
+  }
+  return anchors;
+}
+
+function describeAnchor(anchor: DiffLineAnchor) {
+  return `${anchor.line} (${anchor.lineType}${anchor.fileType === 'FROM' ? ', old file' : ''})`;
+}
+
+// Find the diff line a comment on `line` refers to, inferring lineType and fileType when
+// not given. Lines of the new file win over removed lines sharing the same number.
+export function resolveAnchor(
+  diff: BitbucketDiff,
+  path: string,
+  line: number,
+  lineType?: DiffLineAnchor['lineType']
+): DiffLineAnchor {
+  const file = (diff.diffs ?? []).find(fileDiff => fileDiffPath(fileDiff) === path || fileDiff.source?.toString === path);
+  if (!file) {
+    throw new InvalidAnchorError(`${path} is not changed in this pull request`);
+  }
+
+  const anchors = commentableLines(file);
+  const matches = anchors.filter(anchor => anchor.line === line && (!lineType || anchor.lineType === lineType));
+  const match = matches.find(anchor => anchor.fileType === 'TO') ?? matches[0];
+  if (match) return match;
+
+  const nearest = anchors
+    .filter(anchor => !lineType || anchor.lineType === lineType)
+    .sort((a, b) => Math.abs(a.line - line) - Math.abs(b.line - line))
+    .slice(0, 5)
+    .sort((a, b) => a.line - b.line);
+  const requested = lineType ? `${line} (${lineType})` : `${line}`;
+  throw new InvalidAnchorError(
+    `Line ${requested} of ${path} is not part of the pull request diff. ` +
+    (nearest.length
+      ? `Nearest commentable lines: ${nearest.map(describeAnchor).join(', ')}`
+      : 'The file has no commentable lines')
+  );
+}
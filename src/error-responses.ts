@@ -0,0 +1,82 @@
+// src/error-responses.ts
+
+import axios from 'axios';
+import { BitbucketErrorDetail, ClassifiedError, ErrorCategory } from './types.js';
+import { CommentConflictError, InvalidAnchorError, MergeVetoedError, PullRequestConflictError } from './errors.js';
+
+const HINTS: Record<ErrorCategory, string> = {
+  'not-found': 'Check the project key, repository slug and IDs; list_repositories, list_branches and list_pull_requests show what exists.',
+  'permission-denied': 'The authenticated user lacks permission for this; whoami with the project and repository shows its permissions.',
+  'authentication-failed': 'Bitbucket rejected the credentials; check that the token or password is valid and has not expired.',
+  conflict: 'It changed since it was last read; read it again and retry with the current version.',
+  validation: 'Bitbucket rejected the arguments; correct them using the error messages.',
+  'merge-veto': 'Resolve the vetoes first; can_merge_pull_request shows which remain.',
+  'rate-limited': 'Bitbucket is rate limiting requests; wait before retrying.',
+  unavailable: 'Bitbucket is unavailable or unreachable; try again later.',
+  internal: 'Something unexpected failed; the server log has details.'
+};
+
+function categorize(status: number | undefined, exceptionName: string | undefined): ErrorCategory {
+  if (exceptionName?.endsWith('MergeVetoedException')) return 'merge-veto';
+  if (status === undefined) return 'unavailable';
+  if (status === 401) return 'authentication-failed';
+  if (status === 403) return 'permission-denied';
+  if (status === 404) return 'not-found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate-limited';
+  if (status === 500) return 'internal';
+  return status > 500 ? 'unavailable' : 'validation';
+}
+
+export function classifiedError(category: ErrorCategory, message: string, extra: Partial<ClassifiedError> = {}): ClassifiedError {
+  return { category, message, ...extra, hint: extra.hint ?? HINTS[category] };
+}
+
+// Sort a failure into a category the caller can act on, keeping what Bitbucket said about it
+export function classifyError(error: unknown): ClassifiedError {
+  if (error instanceof InvalidAnchorError) {
+    return classifiedError('validation', error.message, { hint: 'Anchor the comment to one of the lines listed.' });
+  }
+  if (error instanceof MergeVetoedError) {
+    return classifiedError('merge-veto', error.message, { details: error.check });
+  }
+  if (error instanceof PullRequestConflictError) {
+    return classifiedError('conflict', error.message, { details: error.conflict });
+  }
+  if (error instanceof CommentConflictError) {
+    const { commentId, expectedVersion, currentVersion } = error;
+    return classifiedError('conflict', error.message, { details: { commentId, expectedVersion, currentVersion } });
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+    const errors: BitbucketErrorDetail[] = Array.isArray(data?.errors) ? data.errors : [];
+    const exceptionName = errors.find(detail => detail.exceptionName)?.exceptionName ?? undefined;
+    const message = errors.map(detail => detail.message).filter(Boolean).join('; ') || data?.message || error.message;
+    const vetoes = errors.flatMap(detail => Array.isArray(detail.vetoes) ? detail.vetoes : []);
+    // A veto list marks a merge refusal whatever exception a plugin wraps it in
+    return classifiedError(vetoes.length ? 'merge-veto' : categorize(status, exceptionName), message, {
+      ...(status !== undefined ? { status } : {}),
+      ...(exceptionName ? { exceptionName } : {}),
+      ...(errors.length ? { errors } : {}),
+      ...(vetoes.length ? { details: { vetoes } } : {})
+    });
+  }
+  return classifiedError('internal', error instanceof Error ? error.message : String(error));
+}
+
+// What can be logged about a failure. Never the error itself: axios errors carry the
+// request config, whose headers and auth hold the caller's credentials.
+export function errorLogFields(error: unknown, classified = classifyError(error)) {
+  const request = axios.isAxiosError(error)
+    ? { method: error.config?.method, url: error.config?.url, status: error.response?.status }
+    : {};
+  return { ...request, error: classified };
+}
+
+export function errorResponse(error: ClassifiedError) {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(error, null, 2) }],
+    isError: true
+  };
+}
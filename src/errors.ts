@@ -0,0 +1,45 @@
+// src/errors.ts
+
+import { MergeCheckResult, PullRequestConflict } from './types.js';
+
+export class InvalidAnchorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAnchorError';
+  }
+}
+
+// A pull request changed between being read and being mutated
+export class PullRequestConflictError extends Error {
+  constructor(readonly conflict: PullRequestConflict) {
+    super(
+      `Pull request ${conflict.prId} changed: expected version ${conflict.expectedVersion}, ` +
+      `now at version ${conflict.currentVersion} (${conflict.state})` +
+      (conflict.newCommits ? ' with new commits' : '') +
+      (conflict.changedFields?.length ? `; changed: ${conflict.changedFields.join(', ')}` : '') +
+      '. Re-read the pull request before retrying.'
+    );
+    this.name = 'PullRequestConflictError';
+  }
+}
+
+// A comment was edited by someone else between being read and being updated
+export class CommentConflictError extends Error {
+  constructor(readonly commentId: number, readonly expectedVersion: number, readonly currentVersion: number) {
+    super(
+      `Comment ${commentId} changed: expected version ${expectedVersion}, now at version ${currentVersion}. ` +
+      'Re-read the comment before retrying.'
+    );
+    this.name = 'CommentConflictError';
+  }
+}
+
+// The merge pre-flight check found reasons the pull request cannot be merged
+export class MergeVetoedError extends Error {
+  constructor(readonly check: MergeCheckResult) {
+    super(
+      `Pull request cannot be merged: ${check.vetoes.map(veto => veto.summaryMessage).join('; ') || check.outcome || 'unknown reason'}`
+    );
+    this.name = 'MergeVetoedError';
+  }
+}
@@ -0,0 +1,96 @@
+// src/formatting.ts
+
+import {
+  ActivitySummary,
+  BranchSummary,
+  CommentSummary,
+  CommitSummary,
+  EntityKind,
+  PagedResult,
+  ParticipantSummary,
+  PullRequestSummary,
+  RepositorySummary,
+  ResponseFormat,
+  TagSummary
+} from './types.js';
+import { summarizers } from './summaries.js';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['raw', 'summary', 'markdown'];
+
+function excerpt(text: string, length = 200) {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length)}…` : singleLine;
+}
+
+function commentMarkdown(comment: CommentSummary, depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const location = comment.path ? ` \`${comment.path}${comment.line ? `:${comment.line}` : ''}\`` : '';
+  const flags = [comment.severity === 'BLOCKER' ? 'task' : '', comment.state === 'RESOLVED' ? 'resolved' : '']
+    .filter(Boolean)
+    .join(', ');
+  const line = `${indent}- **#${comment.id}** ${comment.author}${location}${flags ? ` (${flags})` : ''}: ${excerpt(comment.text)}`;
+  const replies = (comment.replies ?? []).map(reply => commentMarkdown(reply, depth + 1));
+  return [line, ...replies].join('\n');
+}
+
+// One markdown line (or block, for threaded comments) per summarized entity
+const markdownRenderers: { [K in EntityKind]: (summary: never) => string } = {
+  pullRequest: (pr: PullRequestSummary) => {
+    const reviewers = pr.reviewers.map(reviewer => `${reviewer.user} (${reviewer.status})`).join(', ');
+    return `- **#${pr.id} ${pr.title}** [${pr.state}]${pr.repository ? ` ${pr.repository}` : ''} ` +
+      `\`${pr.fromBranch}\` → \`${pr.toBranch}\` by ${pr.author}` +
+      `${reviewers ? `; reviewers: ${reviewers}` : ''}; updated ${pr.updated}`;
+  },
+  repository: (repository: RepositorySummary) =>
+    `- **${repository.project}/${repository.slug}** ${repository.name}` +
+    `${repository.archived ? ' (archived)' : ''}${repository.description ? `: ${excerpt(repository.description)}` : ''}`,
+  branch: (branch: BranchSummary) =>
+    `- \`${branch.name}\`${branch.isDefault ? ' (default)' : ''} at ${branch.latestCommit.slice(0, 11)}`,
+  comment: (comment: CommentSummary) => commentMarkdown(comment),
+  activity: (activity: ActivitySummary) => activity.comment
+    ? `- ${activity.created ?? ''} ${activity.action} by ${activity.user ?? 'unknown'}\n${commentMarkdown(activity.comment, 1)}`
+    : `- ${activity.created ?? ''} ${activity.action} by ${activity.user ?? 'unknown'}`,
+  participant: (participant: ParticipantSummary) =>
+    `- ${participant.user} (${participant.role}): ${participant.status}`,
+  commit: (commit: CommitSummary) =>
+    `- \`${commit.id.slice(0, 11)}\` ${commit.date.slice(0, 10)} ${commit.author}: ${excerpt(commit.message)}`,
+  tag: (tag: TagSummary) =>
+    `- \`${tag.name}\`${tag.annotated ? ' (annotated)' : ''} at ${tag.latestCommit.slice(0, 11)}`
+};
+
+function isPage(data: unknown): data is PagedResult<unknown> {
+  return typeof data === 'object' && data !== null && Array.isArray((data as PagedResult<unknown>).values);
+}
+
+function toMarkdown(data: unknown, kind: EntityKind): string {
+  const render = (value: unknown) => markdownRenderers[kind](summarizers[kind](value as never) as never);
+  if (Array.isArray(data)) {
+    return data.length ? data.map(render).join('\n') : '_No results_';
+  }
+  if (isPage(data)) {
+    const lines = data.values.length ? data.values.map(render).join('\n') : '_No results_';
+    return data.nextPageStart !== undefined
+      ? `${lines}\n\n_${data.size} shown; more available from start=${data.nextPageStart}_`
+      : lines;
+  }
+  return render(data);
+}
+
+function toSummary(data: unknown, kind: EntityKind): unknown {
+  const summarize = (value: unknown) => summarizers[kind](value as never);
+  if (Array.isArray(data)) return data.map(summarize);
+  if (isPage(data)) return { ...data, values: data.values.map(summarize) };
+  return summarize(data);
+}
+
+// Render an entity, array of entities or page of entities in the requested format
+export function formatResponse(data: unknown, kind: EntityKind, format: ResponseFormat = 'raw'): string {
+  switch (format) {
+    case 'summary':
+      return JSON.stringify(toSummary(data, kind), null, 2);
+    case 'markdown':
+      return toMarkdown(data, kind);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
@@ -0,0 +1,34 @@
+// src/fuzzy.ts
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Candidates a mistyped name most likely meant, closest first: those within a few edits
+// (scaled to the name's length) or containing it, ignoring case
+export function closestMatches(target: string, candidates: string[], limit = 3): string[] {
+  const wanted = target.toLowerCase();
+  const threshold = Math.max(2, Math.floor(wanted.length / 3));
+  return candidates
+    .map(candidate => {
+      const name = candidate.toLowerCase();
+      const distance = name.includes(wanted) || wanted.includes(name) ? 0.5 : editDistance(wanted, name);
+      return { candidate, distance: name === wanted ? 0 : distance };
+    })
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,230 @@
+// src/http-server.ts
+
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from 'winston';
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export const USER_TOKEN_CLIENT_ID = 'bitbucket-personal-access-token';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Streamable HTTP sessions without a request for this long are closed
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpServerHandle {
+  // The port listened on, which differs from the one asked for when that was 0
+  port: number;
+  close(): Promise<void>;
+}
+
+// A session keeps the Bitbucket token its client presented when it was opened
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  token?: string;
+  lastActive: number;
+}
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+  }
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+// A Bitbucket personal access token from X-Bitbucket-Token, or a bearer Authorization
+// header when nothing in front of the server uses that header itself
+function requestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers['x-bitbucket-token'];
+  if (typeof header === 'string' && header.trim()) return header.trim();
+  return /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1];
+}
+
+// Every request in a session must present the token the session was opened with, or none
+// if it was opened without one, so knowing a session id is not enough to act as its user
+function authorize(req: AuthenticatedRequest, res: ServerResponse, session: Session): boolean {
+  const token = requestToken(req);
+  if (session.token && !token) {
+    sendJsonRpcError(res, 401, 'This session was opened with a Bitbucket token; send it with every request');
+    return false;
+  }
+  if (token !== session.token) {
+    sendJsonRpcError(res, 403, 'Bitbucket token does not match the one this session was opened with');
+    return false;
+  }
+  if (token) {
+    req.auth = { token, clientId: USER_TOKEN_CLIENT_ID, scopes: [] };
+  }
+  return true;
+}
+
+// Serve MCP over Streamable HTTP on /mcp, with the older HTTP+SSE transport on /sse and
+// /messages for clients that predate it, and a health check on /health. Every session
+// gets its own MCP server from createMcpServer; tool calls receive the session's
+// Bitbucket token as authInfo.
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: HttpServerOptions,
+  logger: Logger
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // SSE sessions end with their stream; Streamable HTTP ones only when the client says so,
+  // so those abandoned by their client are closed once idle
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const session of sessions.values()) {
+      if (session.transport instanceof StreamableHTTPServerTransport && now - session.lastActive > idleTimeoutMs) {
+        session.transport.close().catch(error => logger.warn('Error closing idle session', { error: String(error) }));
+      }
+    }
+  }, Math.max(1000, Math.min(idleTimeoutMs, 60000)));
+  sweep.unref();
+
+  async function connect(session: Session) {
+    const { transport } = session;
+    const server = createMcpServer();
+    await server.connect(transport);
+    // The server takes over the transport's onclose when it connects
+    server.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+  }
+
+  async function handleStreamableHttp(req: AuthenticatedRequest, res: ServerResponse) {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (existing && !(existing.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 400, 'Session belongs to the SSE transport');
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    if (existing) {
+      existing.lastActive = Date.now();
+      if (authorize(req, res, existing)) {
+        await (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      }
+      return;
+    }
+    if (sessionId !== undefined || req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId !== undefined ? 404 : 400, sessionId !== undefined
+        ? 'Session not found'
+        : 'No session; send an initialize request first');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, session);
+      }
+    });
+    const session: Session = { transport, token: requestToken(req), lastActive: Date.now() };
+    authorize(req, res, session);
+    await connect(session);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSse(req: IncomingMessage, res: ServerResponse) {
+    const transport = new SSEServerTransport('/messages', res);
+    const session: Session = { transport, token: requestToken(req), lastActive: Date.now() };
+    sessions.set(transport.sessionId, session);
+    res.on('close', () => sessions.delete(transport.sessionId));
+    await connect(session);
+  }
+
+  async function handleSseMessage(req: AuthenticatedRequest, res: ServerResponse, url: URL) {
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    if (authorize(req, res, session)) {
+      await session.transport.handlePostMessage(req, res);
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+    } else if (url.pathname === '/mcp') {
+      await handleStreamableHttp(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSse(req, res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  const httpServer: NodeHttpServer = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      logger.error('HTTP request error', { url: req.url, error: error instanceof Error ? error.message : String(error) });
+      if (!res.headersSent) {
+        const status = error instanceof SyntaxError ? 400 : error instanceof BodyTooLargeError ? 413 : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : 'Internal error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  return {
+    port: typeof address === 'object' && address ? address.port : options.port,
+    // Stop accepting connections, then end every open session so long-lived SSE
+    // streams do not hold the process open
+    async close() {
+      clearInterval(sweep);
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      await Promise.allSettled([...sessions.values()].map(({ transport }) => transport.close()));
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await closed;
+    }
+  };
+}
@@ -0,0 +1,80 @@
+// src/pagination.ts
+
+import { AxiosInstance } from 'axios';
+import { BitbucketPage, PageOptions, PagedResult } from './types.js';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Follow Bitbucket's isLastPage/nextPageStart paging. Without a limit every page is
+// fetched; with one, paging stops once it is reached and the cursor to resume from
+// is returned as nextPageStart. selectPage picks the page out of responses that nest it.
+export async function fetchPaged<T>(
+  api: AxiosInstance,
+  url: string,
+  options: PageOptions = {},
+  params: Record<string, unknown> = {},
+  selectPage: (data: unknown) => BitbucketPage<T> = data => data as BitbucketPage<T>
+): Promise<PagedResult<T>> {
+  const { limit, start = 0 } = options;
+  const values: T[] = [];
+  let nextPageStart: number | undefined = start;
+
+  while (nextPageStart !== undefined && (limit === undefined || values.length < limit)) {
+    const pageSize = limit === undefined
+      ? DEFAULT_PAGE_SIZE
+      : Math.min(DEFAULT_PAGE_SIZE, limit - values.length);
+    const response = await api.get(url, {
+      params: { ...params, start: nextPageStart, limit: pageSize }
+    });
+    const page = selectPage(response.data);
+    values.push(...(page.values ?? []));
+    nextPageStart = page.isLastPage ? undefined : page.nextPageStart;
+  }
+
+  return {
+    values,
+    size: values.length,
+    isLastPage: nextPageStart === undefined,
+    ...(nextPageStart !== undefined ? { nextPageStart } : {})
+  };
+}
+
+// Like fetchPaged, but only items passing `matches` count towards the limit, so asking for N
+// returns N matching items whenever that many exist. A limit reached part way through a page
+// leaves the cursor at the first item not looked at.
+export async function fetchPagedMatching<T>(
+  api: AxiosInstance,
+  url: string,
+  matches: (item: T) => boolean,
+  options: PageOptions = {},
+  params: Record<string, unknown> = {}
+): Promise<PagedResult<T>> {
+  const { limit, start = 0 } = options;
+  const values: T[] = [];
+  let nextPageStart: number | undefined = start;
+
+  while (nextPageStart !== undefined && (limit === undefined || values.length < limit)) {
+    const pageStart: number = nextPageStart;
+    const response = await api.get(url, {
+      params: { ...params, start: pageStart, limit: DEFAULT_PAGE_SIZE }
+    });
+    const page = response.data as BitbucketPage<T>;
+    const items = page.values ?? [];
+    nextPageStart = page.isLastPage ? undefined : page.nextPageStart;
+    for (let index = 0; index < items.length; index++) {
+      if (!matches(items[index])) continue;
+      values.push(items[index]);
+      if (limit !== undefined && values.length >= limit) {
+        if (index + 1 < items.length) nextPageStart = pageStart + index + 1;
+        break;
+      }
+    }
+  }
+
+  return {
+    values,
+    size: values.length,
+    isLastPage: nextPageStart === undefined,
+    ...(nextPageStart !== undefined ? { nextPageStart } : {})
+  };
+}
@@ -0,0 +1,100 @@
+// src/retry.ts
+
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Logger } from 'winston';
+import { RetryConfig } from './types.js';
+
+export const DEFAULT_RETRY: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE', 'ECONNREFUSED'];
+
+// Share of the rate limit below which the remaining budget is logged as a warning
+const LOW_BUDGET_RATIO = 0.2;
+
+type RetriableRequest = InternalAxiosRequestConfig & { retryAttempt?: number };
+
+// Seconds or an HTTP date, as milliseconds from now
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// A 429 was refused before Bitbucket did anything and a refused connection never reached
+// it, so both are safe to retry for any method. Other failures may have been applied
+// already and are only retried for idempotent methods.
+export function isRetryable(error: AxiosError): boolean {
+  const method = (error.config?.method ?? 'get').toLowerCase();
+  const status = error.response?.status;
+  if (status === 429 || error.code === 'ECONNREFUSED') return true;
+  if (!IDEMPOTENT_METHODS.includes(method)) return false;
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  return NETWORK_ERROR_CODES.includes(error.code ?? '');
+}
+
+// Exponential backoff with full jitter, unless the server said how long to wait.
+// Undefined when that is longer than maxDelayMs, as waiting would outlast the caller.
+export function retryDelay(
+  attempt: number,
+  retry: RetryConfig,
+  retryAfterMs?: number,
+  random = Math.random
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= retry.maxDelayMs ? retryAfterMs : undefined;
+  }
+  return Math.round(random() * Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1)));
+}
+
+function logRateBudget(response: AxiosResponse, logger: Logger) {
+  const remaining = Number(response.headers['x-ratelimit-remaining']);
+  const limit = Number(response.headers['x-ratelimit-limit']);
+  if (!Number.isFinite(remaining)) return;
+  const budget = { remaining, limit: Number.isFinite(limit) ? limit : undefined, url: response.config.url };
+  if (Number.isFinite(limit) && remaining <= limit * LOW_BUDGET_RATIO) {
+    logger.warn('Bitbucket rate limit budget low', budget);
+  } else {
+    logger.debug('Bitbucket rate limit budget', budget);
+  }
+}
+
+// Retry transient failures (rate limiting, unavailable server, dropped connections)
+// with backoff, honouring Retry-After, and log the remaining rate limit budget
+export function applyRetry(api: AxiosInstance, retry: RetryConfig, logger: Logger) {
+  api.interceptors.response.use(
+    response => {
+      logRateBudget(response, logger);
+      return response;
+    },
+    async (error: unknown) => {
+      if (!axios.isAxiosError(error) || !error.config) throw error;
+      const request = error.config as RetriableRequest;
+      const attempt = (request.retryAttempt ?? 0) + 1;
+      if (error.response) logRateBudget(error.response, logger);
+      if (attempt >= retry.maxAttempts || !isRetryable(error)) throw error;
+
+      const delay = retryDelay(attempt, retry, parseRetryAfter(error.response?.headers['retry-after']));
+      if (delay === undefined) throw error;
+
+      logger.warn('Retrying Bitbucket request', {
+        method: request.method,
+        url: request.url,
+        status: error.response?.status,
+        code: error.code,
+        attempt,
+        delayMs: delay
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      request.retryAttempt = attempt;
+      return api.request(request);
+    }
+  );
+}
@@ -0,0 +1,43 @@
+// src/search.ts
+
+import { BitbucketCodeSearchHit, CodeSearchMatch, CodeSearchOptions } from './types.js';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': '\'',
+  '&#x27;': '\'',
+  '&#x2F;': '/'
+};
+
+// Append the scope options as search qualifiers; repo: only narrows within a project
+export function buildSearchQuery(options: CodeSearchOptions): string {
+  const { query, project, repository, extension, language } = options;
+  const qualifiers = [
+    project ? `project:${project}` : undefined,
+    project && repository ? `repo:${repository}` : undefined,
+    extension ? `ext:${extension.replace(/^\./, '')}` : undefined,
+    language ? `lang:${language}` : undefined
+  ].filter((qualifier): qualifier is string => qualifier !== undefined);
+
+  return [query.trim(), ...qualifiers].join(' ');
+}
+
+// Search returns HTML-escaped lines with matches wrapped in <em>; mark them with ** instead
+export function highlightMatches(text: string): string {
+  return text
+    .replace(/<\/?em>/g, '**')
+    .replace(/&(?:amp|lt|gt|quot|#39|#x27|#x2F);/g, entity => HTML_ENTITIES[entity]);
+}
+
+export function toCodeSearchMatch(hit: BitbucketCodeSearchHit): CodeSearchMatch {
+  return {
+    project: hit.repository.project.key,
+    repository: hit.repository.slug,
+    path: hit.file,
+    hitCount: hit.hitCount,
+    lines: hit.hitContexts.flat().map(({ line, text }) => ({ line, text: highlightMatches(text) }))
+  };
+}
@@ -0,0 +1,28 @@
+// src/server-version.ts
+
+import { AxiosInstance } from 'axios';
+
+const versions = new WeakMap<AxiosInstance, Promise<string | undefined>>();
+
+// Bitbucket version from /application-properties, fetched once per API client.
+// Resolves to undefined when the server does not disclose it; a failed request is
+// not cached, so the next call asks again.
+export function getServerVersion(api: AxiosInstance): Promise<string | undefined> {
+  let version = versions.get(api);
+  if (!version) {
+    version = api.get('/application-properties')
+      .then(response => response.data?.version as string | undefined)
+      .catch(() => {
+        versions.delete(api);
+        return undefined;
+      });
+    versions.set(api, version);
+  }
+  return version;
+}
+
+export function isVersionAtLeast(version: string | undefined, major: number, minor = 0) {
+  if (!version) return false;
+  const [actualMajor = 0, actualMinor = 0] = version.split('.').map(part => parseInt(part, 10) || 0);
+  return actualMajor > major || (actualMajor === major && actualMinor >= minor);
+}
@@ -0,0 +1,117 @@
+// src/summaries.ts
+
+import {
+  ActivitySummary,
+  BitbucketActivity,
+  BitbucketBranch,
+  BitbucketComment,
+  BitbucketCommit,
+  BitbucketParticipant,
+  BitbucketPullRequest,
+  BitbucketRepository,
+  BitbucketTag,
+  BranchSummary,
+  CommentSummary,
+  CommitSummary,
+  EntityKind,
+  ParticipantSummary,
+  PullRequestSummary,
+  RepositorySummary,
+  TagSummary
+} from './types.js';
+
+export function summarizePullRequest(pr: BitbucketPullRequest): PullRequestSummary {
+  const repository = pr.toRef.repository;
+  return {
+    id: pr.id,
+    title: pr.title,
+    state: pr.draft ? `${pr.state} (draft)` : pr.state,
+    repository: repository ? `${repository.project.key}/${repository.slug}` : undefined,
+    author: pr.author.user.name,
+    fromBranch: pr.fromRef.displayId,
+    toBranch: pr.toRef.displayId,
+    reviewers: (pr.reviewers ?? []).map(reviewer => ({ user: reviewer.user.name, status: reviewer.status })),
+    updated: new Date(pr.updatedDate).toISOString(),
+    url: pr.links?.self?.[0]?.href
+  };
+}
+
+export function summarizeRepository(repository: BitbucketRepository): RepositorySummary {
+  return {
+    project: repository.project.key,
+    slug: repository.slug,
+    name: repository.name,
+    description: repository.description,
+    archived: repository.archived,
+    cloneUrl: repository.links?.clone?.find(link => link.name === 'http')?.href
+  };
+}
+
+export function summarizeBranch(branch: BitbucketBranch): BranchSummary {
+  return {
+    name: branch.displayId,
+    latestCommit: branch.latestCommit,
+    isDefault: branch.isDefault
+  };
+}
+
+export function summarizeComment(comment: BitbucketComment): CommentSummary {
+  return {
+    id: comment.id,
+    author: comment.author.name,
+    text: comment.text,
+    created: new Date(comment.createdDate).toISOString(),
+    path: comment.anchor?.path,
+    line: comment.anchor?.line,
+    severity: comment.severity,
+    state: comment.state,
+    replies: comment.comments?.length ? comment.comments.map(summarizeComment) : undefined
+  };
+}
+
+export function summarizeActivity(activity: BitbucketActivity): ActivitySummary {
+  return {
+    action: activity.action,
+    user: activity.user?.name,
+    created: activity.createdDate ? new Date(activity.createdDate).toISOString() : undefined,
+    comment: activity.comment ? summarizeComment(activity.comment) : undefined
+  };
+}
+
+export function summarizeParticipant(participant: BitbucketParticipant): ParticipantSummary {
+  return {
+    user: participant.user.name,
+    role: participant.role,
+    status: participant.status
+  };
+}
+
+export function summarizeCommit(commit: BitbucketCommit): CommitSummary {
+  return {
+    id: commit.id,
+    author: commit.author.name,
+    date: new Date(commit.authorTimestamp).toISOString(),
+    message: commit.message.split('\n')[0],
+    parents: commit.parents.map(parent => parent.displayId)
+  };
+}
+
+// Annotated tags have their own object hash distinct from the commit they point at
+export function summarizeTag(tag: BitbucketTag): TagSummary {
+  return {
+    name: tag.displayId,
+    latestCommit: tag.latestCommit,
+    annotated: Boolean(tag.hash) && tag.hash !== tag.latestCommit
+  };
+}
+
+export const summarizers: { [K in EntityKind]: (value: never) => unknown } = {
+  pullRequest: summarizePullRequest,
+  repository: summarizeRepository,
+  branch: summarizeBranch,
+  comment: summarizeComment,
+  activity: summarizeActivity,
+  participant: summarizeParticipant,
+  commit: summarizeCommit,
+  tag: summarizeTag
+};
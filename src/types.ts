@@ -1,16 +1,497 @@
 // src/types.ts
 
+export interface BitbucketUser {
+  name: string;
+  displayName?: string;
+  emailAddress?: string;
+  slug?: string;
+  [key: string]: unknown;
+}
+
+export type PermissionLevel = 'ADMIN' | 'WRITE' | 'READ' | 'NONE';
+
+export interface WhoAmIResult {
+  user: { name: string; slug?: string; displayName?: string; emailAddress?: string };
+  authMode: AuthMode | 'user-token';
+  permissions: {
+    global?: string;
+    project?: PermissionLevel;
+    repository?: PermissionLevel;
+  };
+}
+
+export interface BitbucketParticipant {
+  user: BitbucketUser;
+  role: 'AUTHOR' | 'REVIEWER' | 'PARTICIPANT';
+  approved: boolean;
+  status: ParticipantStatus;
+}
+
+export interface BitbucketRef {
+  id: string;
+  displayId: string;
+  latestCommit?: string;
+  repository?: {
+    slug: string;
+    name?: string;
+    project: { key: string; [key: string]: unknown };
+    [key: string]: unknown;
+  };
+}
+
+export interface BitbucketPullRequest {
+  id: number;
+  version: number;
+  title: string;
+  description?: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED';
+  draft?: boolean;
+  createdDate: number;
+  updatedDate: number;
+  fromRef: BitbucketRef;
+  toRef: BitbucketRef;
+  author: BitbucketParticipant;
+  reviewers: BitbucketParticipant[];
+  participants?: BitbucketParticipant[];
+  links?: { self?: Array<{ href: string }> };
+  [key: string]: unknown;
+}
+
+export interface BitbucketRepository {
+  slug: string;
+  name: string;
+  description?: string;
+  project: { key: string; name?: string; [key: string]: unknown };
+  public?: boolean;
+  archived?: boolean;
+  links?: { clone?: Array<{ href: string; name: string }>; self?: Array<{ href: string }> };
+  [key: string]: unknown;
+}
+
+export interface BitbucketBranch {
+  id: string;
+  displayId: string;
+  latestCommit: string;
+  isDefault: boolean;
+  [key: string]: unknown;
+}
+
+export interface BitbucketTag {
+  id: string;
+  displayId: string;
+  latestCommit: string;
+  hash?: string | null;
+  [key: string]: unknown;
+}
+
+export interface BitbucketCommit {
+  id: string;
+  displayId: string;
+  message: string;
+  author: { name: string; emailAddress?: string; [key: string]: unknown };
+  authorTimestamp: number;
+  committer?: { name: string; emailAddress?: string; [key: string]: unknown };
+  committerTimestamp?: number;
+  parents: Array<{ id: string; displayId: string }>;
+  [key: string]: unknown;
+}
+
+export interface BitbucketCommentAnchor {
+  path: string;
+  line?: number;
+  lineType?: 'CONTEXT' | 'ADDED' | 'REMOVED';
+  fileType?: 'FROM' | 'TO';
+  [key: string]: unknown;
+}
+
+export interface BitbucketComment {
+  id: number;
+  version: number;
+  text: string;
+  author: BitbucketUser;
+  createdDate: number;
+  updatedDate: number;
+  severity?: 'NORMAL' | 'BLOCKER';
+  state?: 'OPEN' | 'RESOLVED' | 'PENDING';
+  anchor?: BitbucketCommentAnchor;
+  comments?: BitbucketComment[];
+  [key: string]: unknown;
+}
+
 export interface BitbucketActivity {
   action: string;
+  id?: number;
+  createdDate?: number;
+  user?: BitbucketUser;
+  comment?: BitbucketComment;
+  commentAnchor?: BitbucketCommentAnchor;
+  [key: string]: unknown;
+}
+
+export interface BitbucketPath {
+  toString: string;
+  components?: string[];
+  name?: string;
+  parent?: string;
+}
+
+export interface BitbucketChange {
+  path: BitbucketPath;
+  srcPath?: BitbucketPath;
+  type: 'ADD' | 'MODIFY' | 'DELETE' | 'MOVE' | 'COPY' | 'UNKNOWN';
+  nodeType?: string;
+  [key: string]: unknown;
+}
+
+export interface BitbucketDiffLine {
+  source: number;
+  destination: number;
+  line: string;
+  truncated?: boolean;
+}
+
+export interface BitbucketDiffSegment {
+  type: 'ADDED' | 'REMOVED' | 'CONTEXT';
+  lines: BitbucketDiffLine[];
+  truncated?: boolean;
+}
+
+export interface BitbucketDiffHunk {
+  sourceLine: number;
+  sourceSpan: number;
+  destinationLine: number;
+  destinationSpan: number;
+  segments: BitbucketDiffSegment[];
+  truncated?: boolean;
+}
+
+export interface BitbucketFileDiff {
+  source: BitbucketPath | null;
+  destination: BitbucketPath | null;
+  hunks?: BitbucketDiffHunk[];
+  binary?: boolean;
+  truncated?: boolean;
+}
+
+export interface BitbucketDiff {
+  fromHash?: string;
+  toHash?: string;
+  diffs: BitbucketFileDiff[];
+  truncated?: boolean;
+}
+
+export interface BitbucketBrowseEntry {
+  path: BitbucketPath;
+  type: 'FILE' | 'DIRECTORY' | 'SUBMODULE';
+  size?: number;
+  [key: string]: unknown;
+}
+
+export interface BitbucketSearchHitLine {
+  line: number;
+  text: string;
+}
+
+export interface BitbucketCodeSearchHit {
+  repository: BitbucketRepository;
+  file: string;
+  hitContexts: BitbucketSearchHitLine[][];
+  pathMatches: { start: number; length: number }[];
+  hitCount: number;
+}
+
+export interface BitbucketCodeSearchResponse {
+  code?: {
+    category: string;
+    isLastPage: boolean;
+    count: number;
+    start: number;
+    nextStart?: number;
+    values: BitbucketCodeSearchHit[];
+  };
+}
+
+export interface CodeSearchOptions {
+  query: string;
+  project?: string;
+  repository?: string;
+  extension?: string;
+  language?: string;
+}
+
+export interface CodeSearchMatch {
+  project: string;
+  repository: string;
+  path: string;
+  hitCount: number;
+  lines: BitbucketSearchHitLine[];
+}
+
+export type BuildState = 'SUCCESSFUL' | 'FAILED' | 'INPROGRESS' | 'CANCELLED' | 'UNKNOWN';
+
+export interface BitbucketBuildStatus {
+  key: string;
+  state: BuildState;
+  name?: string;
+  url: string;
+  description?: string;
+  dateAdded?: number;
+  [key: string]: unknown;
+}
+
+export interface BuildStatusResult {
+  commitId: string;
+  counts: Partial<Record<BuildState, number>>;
+  builds: BitbucketBuildStatus[];
+}
+
+export interface BitbucketInsightReport {
+  key: string;
+  title: string;
+  result?: 'PASS' | 'FAIL';
+  details?: string;
+  reporter?: string;
+  link?: string;
+  createdDate?: number;
+  data?: InsightReportData[];
+  [key: string]: unknown;
+}
+
+export interface InsightReportData {
+  title: string;
+  type?: 'BOOLEAN' | 'DATE' | 'DURATION' | 'LINK' | 'NUMBER' | 'PERCENTAGE' | 'TEXT';
+  value: unknown;
+}
+
+export interface InsightAnnotation {
+  message: string;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  path?: string;
+  line?: number;
+  type?: 'BUG' | 'CODE_SMELL' | 'VULNERABILITY';
+  externalId?: string;
+  link?: string;
+}
+
+export interface InsightReportInput {
+  key: string;
+  title: string;
+  result?: 'PASS' | 'FAIL';
+  details?: string;
+  reporter?: string;
+  link?: string;
+  data?: InsightReportData[];
+  annotations?: InsightAnnotation[];
+}
+
+export interface RefFilters {
+  filterText?: string;
+  orderBy?: 'ALPHABETICAL' | 'MODIFICATION';
+}
+
+export interface RefInput {
+  name: string;
+  startPoint: string;
+  message?: string;
+}
+
+export interface CommitFilters {
+  branch?: string;
+  until?: string;
+  since?: string;
+  path?: string;
+  merges?: 'include' | 'exclude' | 'only';
+}
+
+export interface FileListOptions {
+  path?: string;
+  at?: string;
+  recursive?: boolean;
+}
+
+export interface FileContentOptions {
+  at?: string;
+  startLine?: number;
+  endLine?: number;
+  lineNumbers?: boolean;
+  maxSize?: number;
+}
+
+export type ResponseFormat = 'raw' | 'summary' | 'markdown';
+
+export type EntityKind = 'pullRequest' | 'repository' | 'branch' | 'comment' | 'activity' | 'participant' | 'commit' | 'tag';
+
+export interface PullRequestSummary {
+  id: number;
+  title: string;
+  state: string;
+  repository?: string;
+  author: string;
+  fromBranch: string;
+  toBranch: string;
+  reviewers: Array<{ user: string; status: string }>;
+  updated: string;
+  url?: string;
+}
+
+export interface RepositorySummary {
+  project: string;
+  slug: string;
+  name: string;
+  description?: string;
+  archived?: boolean;
+  cloneUrl?: string;
+}
+
+export interface BranchSummary {
+  name: string;
+  latestCommit: string;
+  isDefault: boolean;
+}
+
+export interface CommentSummary {
+  id: number;
+  author: string;
+  text: string;
+  created: string;
+  path?: string;
+  line?: number;
+  severity?: string;
+  state?: string;
+  replies?: CommentSummary[];
+}
+
+export interface ActivitySummary {
+  action: string;
+  user?: string;
+  created?: string;
+  comment?: CommentSummary;
+}
+
+export interface BitbucketTask {
+  id: number;
+  text: string;
+  state: 'OPEN' | 'RESOLVED';
+  author: BitbucketUser;
+  createdDate: number;
+  anchor?: { id: number; type?: string; [key: string]: unknown };
   [key: string]: unknown;
 }
 
+export interface TaskSummary {
+  id: number;
+  text: string;
+  state: string;
+  author: string;
+  created: string;
+  commentId?: number;
+  source: 'task' | 'blocker-comment';
+}
+
+export interface CommitSummary {
+  id: string;
+  author: string;
+  date: string;
+  message: string;
+  parents: string[];
+}
+
+export interface TagSummary {
+  name: string;
+  latestCommit: string;
+  annotated: boolean;
+}
+
+export interface ParticipantSummary {
+  user: string;
+  role: string;
+  status: string;
+}
+
+export type TransportMode = 'stdio' | 'http';
+
+export type AuthMode = 'token' | 'basic' | 'oauth1' | 'oauth2' | 'certificate';
+
+// Personal or HTTP access token, sent as a bearer token
+export interface TokenAuth {
+  mode: 'token';
+  token: string;
+}
+
+export interface BasicAuth {
+  mode: 'basic';
+  username: string;
+  password: string;
+}
+
+// OAuth 1.0a through an application link: requests are signed with RSA-SHA1
+export interface OAuth1Auth {
+  mode: 'oauth1';
+  consumerKey: string;
+  privateKey: string;
+  token: string;
+}
+
+// OAuth 2.0 access token, refreshed on expiry when a refresh token and client are given
+export interface OAuth2Auth {
+  mode: 'oauth2';
+  accessToken: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+// The client certificate in TlsConfig is the only credential
+export interface CertificateAuth {
+  mode: 'certificate';
+}
+
+export type AuthConfig = TokenAuth | BasicAuth | OAuth1Auth | OAuth2Auth | CertificateAuth;
+
+// PEM contents of a client certificate and key for mutual TLS, and extra trusted CAs
+export interface TlsConfig {
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  ca?: string;
+}
+
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
 export interface BitbucketConfig {
   baseUrl: string;
-  token?: string;
-  username?: string;
-  password?: string;
+  auth?: AuthConfig;
+  tls?: TlsConfig;
+  timeoutMs?: number;
+  retry?: RetryConfig;
   defaultProject?: string;
+  responseFormat?: ResponseFormat;
+  transport?: TransportMode;
+  httpHost?: string;
+  httpPort?: number;
+  sessionIdleTimeoutMs?: number;
+  requireUserToken?: boolean;
+}
+
+// added/removed are only counted on request, and are null when Bitbucket truncated the file's diff
+export interface ChangedFileSummary {
+  path: string;
+  srcPath?: string;
+  type: string;
+  added?: number | null;
+  removed?: number | null;
+}
+
+export interface StructuredFileDiff {
+  path: string;
+  srcPath?: string;
+  binary?: boolean;
+  hunks: BitbucketDiffHunk[];
+  truncated?: boolean;
 }
 
 export interface RepositoryParams {
@@ -22,9 +503,63 @@ export interface PullRequestParams extends RepositoryParams {
   prId: number;
 }
 
+// A commit given directly, or the latest commit of a pull request's source branch
+export interface CommitTarget extends RepositoryParams {
+  commitId?: string;
+  prId?: number;
+}
+
 export interface MergeOptions {
   message?: string;
   strategy?: 'merge-commit' | 'squash' | 'fast-forward';
+  version?: number;
+  checkFirst?: boolean;
+}
+
+// A merge check's refusal, as worded by the check (and its plugin and locale)
+export interface BitbucketMergeVeto {
+  summaryMessage: string;
+  detailedMessage?: string;
+  [key: string]: unknown;
+}
+
+export interface BitbucketMergeStatus {
+  canMerge: boolean;
+  conflicted: boolean;
+  outcome?: 'CLEAN' | 'CONFLICTED' | 'UNKNOWN';
+  vetoes: BitbucketMergeVeto[];
+}
+
+export interface MergeCheckResult {
+  canMerge: boolean;
+  conflicted: boolean;
+  outcome?: string;
+  vetoes: BitbucketMergeVeto[];
+}
+
+export interface DeclineOptions {
+  message?: string;
+  version?: number;
+}
+
+export interface DiffOptions {
+  contextLines?: number;
+  path?: string;
+  structured?: boolean;
+  maxSize?: number;
+}
+
+// Compare a source ref (optionally in a fork) against a target ref in this repository
+export interface RefComparison extends RepositoryParams {
+  from: string;
+  to: string;
+  fromProject?: string;
+  fromRepository?: string;
+}
+
+export interface CompareOptions extends DiffOptions {
+  includeDiff?: boolean;
+  lineCounts?: boolean;
 }
 
 export interface CommentOptions {
@@ -32,6 +567,23 @@ export interface CommentOptions {
   parentId?: number;
 }
 
+export interface PullRequestFilters {
+  state?: 'OPEN' | 'MERGED' | 'DECLINED' | 'ALL';
+  direction?: 'INCOMING' | 'OUTGOING';
+  at?: string;
+  author?: string;
+  reviewer?: string;
+  order?: 'NEWEST' | 'OLDEST';
+  filterText?: string;
+}
+
+export interface DashboardFilters {
+  role?: 'AUTHOR' | 'REVIEWER' | 'PARTICIPANT';
+  state?: 'OPEN' | 'MERGED' | 'DECLINED';
+  participantStatus?: 'UNAPPROVED' | 'NEEDS_WORK' | 'APPROVED';
+  order?: 'NEWEST' | 'OLDEST' | 'PARTICIPANT_STATUS' | 'CLOSED_DATE';
+}
+
 export interface PullRequestInput extends RepositoryParams {
   title: string;
   description: string;
@@ -40,6 +592,93 @@ export interface PullRequestInput extends RepositoryParams {
   reviewers?: string[];
 }
 
+export interface CommentChanges {
+  text?: string;
+  severity?: 'NORMAL' | 'BLOCKER';
+  state?: 'OPEN' | 'RESOLVED';
+}
+
+export interface InlineCommentOptions {
+  text: string;
+  filePath: string;
+  line: number;
+  lineType?: 'CONTEXT' | 'ADDED' | 'REMOVED';
+  startColumn?: number;
+  endColumn?: number;
+  parentId?: number;
+  startLine?: number;
+}
+
+export interface SuggestionOptions {
+  message?: string;
+  filePath: string;
+  line: number;
+  endLine?: number;
+  lineType?: 'CONTEXT' | 'ADDED' | 'REMOVED';
+  suggestedCode: string;
+  parentId?: number;
+}
+
+export interface ReviewComment {
+  text: string;
+  filePath?: string;
+  line?: number;
+  endLine?: number;
+  lineType?: 'CONTEXT' | 'ADDED' | 'REMOVED';
+  parentId?: number;
+}
+
+export type ReviewVerdict = 'approve' | 'needs-work' | 'comment';
+
+export interface ReviewOptions {
+  comments: ReviewComment[];
+  verdict?: ReviewVerdict;
+  concurrency?: number;
+  rollbackOnFailure?: boolean;
+}
+
+export interface ReviewCommentResult {
+  index: number;
+  status: 'posted' | 'failed' | 'rolled-back' | 'skipped';
+  id?: number;
+  filePath?: string;
+  line?: number;
+  error?: string;
+}
+
+export type ParticipantStatus = 'APPROVED' | 'NEEDS_WORK' | 'UNAPPROVED';
+
+export interface ReviewerChanges {
+  add?: string[];
+  remove?: string[];
+  version?: number;
+}
+
+export interface PullRequestConflict {
+  prId: number;
+  expectedVersion: number;
+  currentVersion: number;
+  state: string;
+  newCommits?: boolean;
+  latestCommit?: { expected?: string; current?: string };
+  changedFields?: string[];
+}
+
+export interface DiffLineAnchor {
+  line: number;
+  lineType: 'CONTEXT' | 'ADDED' | 'REMOVED';
+  fileType: 'FROM' | 'TO';
+}
+
+export interface PullRequestUpdateInput extends PullRequestParams {
+  title?: string;
+  description?: string;
+  targetBranch?: string;
+  draft?: boolean;
+  reviewers?: string[];
+  version?: number;
+}
+
 export interface CommentPayload {
   text: string;
   anchor: {
@@ -50,6 +689,67 @@ export interface CommentPayload {
     fileType: string;
     startColumn?: number;
     endColumn?: number;
+    multilineMarker?: {
+      startLine: number;
+      startLineType: 'CONTEXT' | 'ADDED' | 'REMOVED';
+    };
   };
   parent?: { id: number };
 }
+
+export type ErrorCategory =
+  | 'not-found'
+  | 'permission-denied'
+  | 'authentication-failed'
+  | 'conflict'
+  | 'validation'
+  | 'merge-veto'
+  | 'rate-limited'
+  | 'unavailable'
+  | 'internal';
+
+// One entry of the errors array in Bitbucket's error responses
+export interface BitbucketErrorDetail {
+  message: string;
+  context?: string | null;
+  exceptionName?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ClassifiedError {
+  category: ErrorCategory;
+  message: string;
+  status?: number;
+  exceptionName?: string;
+  errors?: BitbucketErrorDetail[];
+  hint?: string;
+  details?: unknown;
+}
+
+export interface PageOptions {
+  limit?: number;
+  start?: number;
+}
+
+// compare_refs pages its commits and its changed files independently
+export interface ComparePageOptions {
+  limit?: number;
+  commitsStart?: number;
+  changesStart?: number;
+}
+
+export interface BitbucketPage<T> {
+  values: T[];
+  size: number;
+  limit: number;
+  start: number;
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+export interface PagedResult<T> {
+  values: T[];
+  size: number;
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
@@ -0,0 +1,22 @@
+import { AxiosInstance } from 'axios';
+import { createUserClientCache } from '../src/api-clients';
+
+describe('createUserClientCache', () => {
+  test('should reuse clients per token and evict the least recently used', () => {
+    // Arrange
+    const create = jest.fn((token: string) => ({ token }) as unknown as AxiosInstance);
+    const clientFor = createUserClientCache(create, 2);
+
+    // Act
+    const alice = clientFor('alice-token');
+    clientFor('bob-token');
+    const aliceAgain = clientFor('alice-token');
+    clientFor('carol-token');
+    clientFor('alice-token');
+    clientFor('bob-token');
+
+    // Assert
+    expect(aliceAgain).toBe(alice);
+    expect(create.mock.calls.map(([token]) => token)).toEqual(['alice-token', 'bob-token', 'carol-token', 'bob-token']);
+  });
+});
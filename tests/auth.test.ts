@@ -0,0 +1,181 @@
+import { createVerify, generateKeyPairSync } from 'node:crypto';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createApiClient } from '../src/api-clients';
+import { oauth1AuthorizationHeader, oauth1SignatureBase, readAuthConfig } from '../src/auth';
+import { AuthConfig } from '../src/types';
+
+const baseUrl = 'https://bitbucket.example.com';
+
+// Answer requests in place of the network, recording each one as sent. Retries reuse the
+// request config, so its headers are copied.
+function recordRequests(api: AxiosInstance, status: (config: InternalAxiosRequestConfig) => number = () => 200) {
+  const sent: Array<Pick<InternalAxiosRequestConfig, 'url' | 'auth'> & { headers: Record<string, unknown> }> = [];
+  api.defaults.adapter = async config => {
+    sent.push({ url: config.url, auth: config.auth, headers: { ...config.headers.toJSON() } });
+    const response = { data: {}, status: status(config), statusText: '', headers: {}, config };
+    if (response.status >= 400) {
+      throw new axios.AxiosError('Request failed', 'ERR_BAD_REQUEST', config, undefined, response);
+    }
+    return response;
+  };
+  return sent;
+}
+
+describe('auth configuration', () => {
+  test('should prefer a token over basic credentials', () => {
+    // Act
+    const auth = readAuthConfig({
+      BITBUCKET_TOKEN: 'token',
+      BITBUCKET_USERNAME: 'alice',
+      BITBUCKET_PASSWORD: 'secret'
+    });
+
+    // Assert
+    expect(auth).toEqual({ mode: 'token', token: 'token' });
+  });
+
+  test('should use basic credentials when the mode is explicit', () => {
+    // Act
+    const auth = readAuthConfig({
+      BITBUCKET_AUTH_MODE: 'basic',
+      BITBUCKET_TOKEN: 'token',
+      BITBUCKET_USERNAME: 'alice',
+      BITBUCKET_PASSWORD: 'secret'
+    });
+
+    // Assert
+    expect(auth).toEqual({ mode: 'basic', username: 'alice', password: 'secret' });
+  });
+
+  test('should name missing credentials for an explicit mode', () => {
+    // Act & Assert
+    expect(() => readAuthConfig({ BITBUCKET_AUTH_MODE: 'oauth2' }))
+      .toThrow('BITBUCKET_AUTH_MODE=oauth2 requires BITBUCKET_OAUTH2_ACCESS_TOKEN');
+    expect(() => readAuthConfig({ BITBUCKET_AUTH_MODE: 'kerberos' }))
+      .toThrow('BITBUCKET_AUTH_MODE must be one of');
+  });
+
+  test('should return nothing without credentials', () => {
+    // Act & Assert
+    expect(readAuthConfig({ BITBUCKET_USERNAME: 'alice' })).toBeUndefined();
+  });
+});
+
+describe('OAuth 1.0a signing', () => {
+  test('should build the signature base from sorted, encoded parameters', () => {
+    // Act
+    const base = oauth1SignatureBase(
+      'get',
+      'https://bitbucket.example.com/rest/api/latest/projects?limit=25&name=a b',
+      { oauth_token: 't', oauth_consumer_key: 'c' }
+    );
+
+    // Assert
+    expect(base).toBe(
+      'GET&https%3A%2F%2Fbitbucket.example.com%2Frest%2Fapi%2Flatest%2Fprojects&' +
+      'limit%3D25%26name%3Da%2520b%26oauth_consumer_key%3Dc%26oauth_token%3Dt'
+    );
+  });
+
+  test('should sign requests with the application link private key', () => {
+    // Arrange
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const url = 'https://bitbucket.example.com/rest/api/latest/projects?limit=25';
+
+    // Act
+    const header = oauth1AuthorizationHeader(
+      'GET',
+      url,
+      { consumerKey: 'mcp', privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string, token: 'access' },
+      'nonce',
+      '1700000000'
+    );
+
+    // Assert
+    const params = Object.fromEntries([...header.slice('OAuth '.length).matchAll(/(\w+)="([^"]*)"/g)]
+      .map(([, key, value]) => [key, decodeURIComponent(value)]));
+    const { oauth_signature: signature, ...oauthParams } = params;
+    expect(oauthParams).toEqual({
+      oauth_consumer_key: 'mcp',
+      oauth_nonce: 'nonce',
+      oauth_signature_method: 'RSA-SHA1',
+      oauth_timestamp: '1700000000',
+      oauth_token: 'access',
+      oauth_version: '1.0'
+    });
+    const verified = createVerify('RSA-SHA1')
+      .update(oauth1SignatureBase('GET', url, oauthParams))
+      .verify(publicKey, signature, 'base64');
+    expect(verified).toBe(true);
+  });
+});
+
+describe('authenticated clients', () => {
+  async function sentWith(auth?: AuthConfig) {
+    const api = createApiClient(baseUrl, auth);
+    const sent = recordRequests(api);
+    await api.get('/projects');
+    return sent[0];
+  }
+
+  test('should send a bearer token only in token modes', async () => {
+    // Act
+    const token = await sentWith({ mode: 'token', token: 'secret' });
+    const oauth2 = await sentWith({ mode: 'oauth2', accessToken: 'access' });
+
+    // Assert
+    expect(token.headers.Authorization).toBe('Bearer secret');
+    expect(oauth2.headers.Authorization).toBe('Bearer access');
+  });
+
+  test('should never send a bearer header without a token', async () => {
+    // Act
+    const basic = await sentWith({ mode: 'basic', username: 'alice', password: 'secret' });
+    const certificate = await sentWith({ mode: 'certificate' });
+    const none = await sentWith();
+
+    // Assert
+    expect(basic.auth).toEqual({ username: 'alice', password: 'secret' });
+    for (const config of [basic, certificate, none]) {
+      expect(config.headers.Authorization).toBeUndefined();
+    }
+  });
+});
+
+describe('OAuth 2.0 refresh', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should refresh once for concurrent failures and retry each request once', async () => {
+    // Arrange
+    const refresh = jest.spyOn(axios, 'post').mockResolvedValue({ data: { access_token: 'fresh', refresh_token: 'next' } });
+    const api = createApiClient(baseUrl, { mode: 'oauth2', accessToken: 'expired', refreshToken: 'refresh', clientId: 'mcp' });
+    const sent = recordRequests(api, config => config.headers.Authorization === 'Bearer fresh' ? 200 : 401);
+
+    // Act
+    await Promise.all([api.get('/projects'), api.get('/repos')]);
+
+    // Assert
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh.mock.calls[0][0]).toBe(`${baseUrl}/rest/oauth2/latest/token`);
+    expect(String(refresh.mock.calls[0][1])).toContain('grant_type=refresh_token&refresh_token=refresh&client_id=mcp');
+    expect(sent.map(config => [config.url, config.headers.Authorization])).toEqual([
+      ['/projects', 'Bearer expired'],
+      ['/repos', 'Bearer expired'],
+      ['/projects', 'Bearer fresh'],
+      ['/repos', 'Bearer fresh']
+    ]);
+  });
+
+  test('should not retry again when the refreshed token is refused', async () => {
+    // Arrange
+    jest.spyOn(axios, 'post').mockResolvedValue({ data: { access_token: 'fresh' } });
+    const api = createApiClient(baseUrl, { mode: 'oauth2', accessToken: 'expired', refreshToken: 'refresh', clientId: 'mcp' });
+    const sent = recordRequests(api, () => 401);
+
+    // Act & Assert
+    await expect(api.get('/projects')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(sent).toHaveLength(2);
+  });
+});
@@ -0,0 +1,1322 @@
+import { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  canMergePullRequest,
+  compareRefs,
+  createBranch,
+  createTag,
+  createTask,
+  declinePullRequest,
+  deleteBranch,
+  deleteComment,
+  editComment,
+  getBuildStatus,
+  getCommit,
+  getCommitChanges,
+  getCommitDiff,
+  getDiff,
+  getCommentThread,
+  getFileContent,
+  getMyPullRequests,
+  getPullRequestChanges,
+  listBranches,
+  listCommits,
+  listFiles,
+  listParticipants,
+  listPullRequestCommits,
+  listTasks,
+  listPullRequests,
+  mergePullRequest,
+  publishInsightReport,
+  notFoundHint,
+  reactToComment,
+  searchCode,
+  setDefaultBranch,
+  setTaskState,
+  setReviewStatus,
+  submitReview,
+  suggestCodeChange,
+  updatePullRequest,
+  updateReviewers,
+  whoami
+} from '../src/bitbucket-api';
+
+function createMockApi() {
+  return { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn(), defaults: {} };
+}
+
+function parse(result: { content: Array<{ text: string }> }, index = 0) {
+  return JSON.parse(result.content[index].text);
+}
+
+function apiError(status: number, data: unknown = {}) {
+  const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = { status, data, headers: {}, config, statusText: '' } as AxiosResponse;
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, undefined, response);
+}
+
+const prParams = { project: 'TEST', repository: 'repo', prId: 1 };
+
+function pullRequest(version: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    version,
+    title: 'Add login',
+    description: '',
+    state: 'OPEN',
+    fromRef: { id: 'refs/heads/feature', latestCommit: 'abc123' },
+    toRef: { id: 'refs/heads/main' },
+    reviewers: [],
+    ...overrides
+  };
+}
+
+describe('notFoundHint', () => {
+  test('should suggest the closest project keys', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [{ key: 'PLATFORM' }, { key: 'PAYMENTS' }, { key: 'WEB' }], isLastPage: true } });
+
+    // Act
+    const hint = await notFoundHint(
+      mockApi as unknown as AxiosInstance,
+      'com.atlassian.bitbucket.project.NoSuchProjectException',
+      'PLATFROM'
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects', { params: { start: 0, limit: 100 } });
+    expect(hint).toBe('Project PLATFROM not found; did you mean PLATFORM?');
+  });
+
+  test('should give no hint when nothing is close or the lookup fails', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [{ slug: 'backend' }], isLastPage: true } })
+      .mockRejectedValueOnce(new Error('forbidden'));
+    const api = mockApi as unknown as AxiosInstance;
+    const exceptionName = 'com.atlassian.bitbucket.repository.NoSuchRepositoryException';
+
+    // Act
+    const hints = [await notFoundHint(api, exceptionName, 'TEST', 'frontend'), await notFoundHint(api, exceptionName, 'TEST', 'frontend')];
+
+    // Assert
+    expect(hints).toEqual([undefined, undefined]);
+  });
+});
+
+describe('changed files', () => {
+  const changes = {
+    values: [
+      { path: { toString: 'src/app.ts' }, type: 'MODIFY' },
+      { path: { toString: 'src/big.json' }, srcPath: { toString: 'data/big.json' }, type: 'MOVE' }
+    ],
+    isLastPage: true
+  };
+
+  test('should list changed files without downloading the diff', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: changes });
+
+    // Act
+    const result = await getPullRequestChanges(mockApi as unknown as AxiosInstance, prParams);
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(1);
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/changes', { params: { start: 0, limit: 100 } });
+    expect(parse(result).values).toEqual([
+      { path: 'src/app.ts', type: 'MODIFY' },
+      { path: 'src/big.json', srcPath: 'data/big.json', type: 'MOVE' }
+    ]);
+  });
+
+  test('should count lines per file on request and mark truncated diffs unknown', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockImplementation(async (url: string) => {
+      if (url.endsWith('/changes')) return { data: changes };
+      if (url.endsWith('/diff/src/app.ts')) {
+        return {
+          data: {
+            diffs: [{
+              source: { toString: 'src/app.ts' },
+              destination: { toString: 'src/app.ts' },
+              hunks: [{ segments: [{ type: 'ADDED', lines: [{}, {}] }, { type: 'REMOVED', lines: [{}] }] }]
+            }]
+          }
+        };
+      }
+      return { data: { diffs: [], truncated: true } };
+    });
+
+    // Act
+    const result = await getPullRequestChanges(mockApi as unknown as AxiosInstance, prParams, {}, true);
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/diff/src/big.json', {
+      params: { srcPath: 'data/big.json', contextLines: 0 },
+      headers: { Accept: 'application/json' }
+    });
+    expect(parse(result).values).toEqual([
+      { path: 'src/app.ts', type: 'MODIFY', added: 2, removed: 1 },
+      { path: 'src/big.json', srcPath: 'data/big.json', type: 'MOVE', added: null, removed: null }
+    ]);
+  });
+});
+
+describe('structured diffs', () => {
+  function fileDiff(path: string) {
+    return {
+      diffs: [{
+        source: { toString: path },
+        destination: { toString: path },
+        hunks: [{ sourceLine: 1, sourceSpan: 1, destinationLine: 1, destinationSpan: 2, segments: [{ type: 'ADDED', lines: [{ source: 1, destination: 2, line: 'x' }] }] }]
+      }]
+    };
+  }
+
+  test('should stop fetching matching files once the size cap is reached', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({
+        data: {
+          values: ['src/a.ts', 'src/b.ts', 'README.md', 'src/c.ts'].map(path => ({ path: { toString: path }, type: 'MODIFY' })),
+          isLastPage: true
+        }
+      })
+      .mockResolvedValueOnce({ data: fileDiff('src/a.ts') });
+
+    // Act
+    const result = await getDiff(mockApi as unknown as AxiosInstance, prParams, { path: 'src/*.ts', structured: true, maxSize: 10 });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+    expect(mockApi.get).toHaveBeenLastCalledWith('/projects/TEST/repos/repo/pull-requests/1/diff/src/a.ts', {
+      params: { contextLines: 10 },
+      headers: { Accept: 'application/json' }
+    });
+    expect(parse(result)).toMatchObject({
+      files: [{ path: 'src/a.ts' }],
+      truncated: true,
+      omittedFiles: ['src/b.ts', 'src/c.ts']
+    });
+  });
+});
+
+describe('submitReview', () => {
+  const fileDiff = {
+    diffs: [{
+      source: { toString: 'src/app.ts' },
+      destination: { toString: 'src/app.ts' },
+      hunks: [{ segments: [{ type: 'ADDED', lines: [{ source: 9, destination: 10 }, { source: 9, destination: 11 }] }] }]
+    }]
+  };
+  const comments = [
+    { text: 'Rename this', filePath: 'src/app.ts', line: 10 },
+    { text: 'Looks good overall' }
+  ];
+
+  function reviewApi() {
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValue({ data: fileDiff });
+    return mockApi;
+  }
+
+  test('should post every comment before applying the verdict', async () => {
+    // Arrange
+    const mockApi = reviewApi();
+    mockApi.post
+      .mockResolvedValueOnce({ data: { id: 1, version: 0 } })
+      .mockResolvedValueOnce({ data: { id: 2, version: 0 } })
+      .mockResolvedValueOnce({ data: { status: 'APPROVED' } });
+
+    // Act
+    const result = parse(await submitReview(mockApi as unknown as AxiosInstance, prParams, { comments, verdict: 'approve' }));
+
+    // Assert
+    expect(mockApi.post.mock.calls.map(([url]) => url)).toEqual([
+      '/projects/TEST/repos/repo/pull-requests/1/comments',
+      '/projects/TEST/repos/repo/pull-requests/1/comments',
+      '/projects/TEST/repos/repo/pull-requests/1/approve'
+    ]);
+    expect(mockApi.post.mock.calls[0][1]).toMatchObject({
+      anchor: { path: 'src/app.ts', line: 10, lineType: 'ADDED', fileType: 'TO' }
+    });
+    expect(result).toMatchObject({ posted: 2, failed: 0, verdict: { verdict: 'approve', applied: true, status: 'APPROVED' } });
+  });
+
+  test('should post nothing when an anchor is not in the diff', async () => {
+    // Arrange
+    const mockApi = reviewApi();
+
+    // Act
+    const result = parse(await submitReview(mockApi as unknown as AxiosInstance, prParams, {
+      comments: [...comments, { text: 'Off the diff', filePath: 'src/app.ts', line: 40 }],
+      verdict: 'approve'
+    }));
+
+    // Assert
+    expect(mockApi.post).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ posted: 0, failed: 1, verdict: { applied: false } });
+    expect(result.comments.map((comment: { status: string }) => comment.status)).toEqual(['skipped', 'skipped', 'failed']);
+  });
+
+  test('should roll back posted comments and skip the verdict when one fails', async () => {
+    // Arrange
+    const mockApi = reviewApi();
+    mockApi.post
+      .mockResolvedValueOnce({ data: { id: 1, version: 3 } })
+      .mockRejectedValueOnce(new AxiosError('Request failed'));
+    mockApi.delete.mockResolvedValueOnce({});
+
+    // Act
+    const result = parse(await submitReview(mockApi as unknown as AxiosInstance, prParams, {
+      comments,
+      verdict: 'approve',
+      concurrency: 1,
+      rollbackOnFailure: true
+    }));
+
+    // Assert
+    expect(mockApi.delete).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/comments/1', { params: { version: 3 } });
+    expect(mockApi.post).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ posted: 0, failed: 1, rolledBack: 1, verdict: { applied: false } });
+  });
+});
+
+describe('repository content', () => {
+  test('should list a directory and refuse a file path', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({
+        data: { children: { values: [{ path: { toString: 'app.ts' }, type: 'FILE', size: 12 }], isLastPage: true } }
+      })
+      .mockResolvedValueOnce({ data: { lines: [{ text: 'const a = 1;' }], isLastPage: true } });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const directory = await listFiles(api, 'TEST', 'repo', { path: 'src', at: 'main' });
+    const file = await listFiles(api, 'TEST', 'repo', { path: 'src/app.ts' });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/browse/src', { params: { at: 'main', start: 0, limit: 100 } });
+    expect(parse(directory).values).toEqual([{ path: 'app.ts', type: 'FILE', size: 12 }]);
+    expect(file).toMatchObject({ isError: true });
+    expect(parse(file)).toMatchObject({ category: 'validation', message: expect.stringContaining('get_file_content') });
+  });
+
+  test('should validate line ranges before fetching', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const zeroStart = await getFileContent(api, 'TEST', 'repo', 'README.md', { startLine: 0 });
+    const reversed = await getFileContent(api, 'TEST', 'repo', 'README.md', { startLine: 5, endLine: 2 });
+
+    // Assert
+    expect(mockApi.get).not.toHaveBeenCalled();
+    expect(parse(zeroStart)).toMatchObject({ category: 'validation' });
+    expect(parse(reversed)).toMatchObject({ category: 'validation' });
+  });
+
+  test('should not count a final newline as another line', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    const file = Array.from({ length: 10 }, (_, index) => `line ${index + 1}\n`).join('');
+    mockApi.get.mockResolvedValueOnce({ data: Buffer.from(file) });
+
+    // Act
+    const result = await getFileContent(mockApi as unknown as AxiosInstance, 'TEST', 'repo', 'notes.txt', { startLine: 9 });
+
+    // Assert
+    expect(result.content[0].text).toBe('notes.txt lines 9-10 of 10\n\nline 9\nline 10');
+  });
+
+  test('should cut long content at a line and say where to continue', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: Buffer.from('alpha\nbravo\ncharlie\ndelta') });
+
+    // Act
+    const result = await getFileContent(mockApi as unknown as AxiosInstance, 'TEST', 'repo', 'notes.txt', { maxSize: 14 });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/raw/notes.txt', { params: {}, responseType: 'arraybuffer' });
+    expect(result.content[0].text).toBe(
+      'notes.txt lines 1-2 of 4\n\nalpha\nbravo\n\n[Truncated at 14 characters; continue with startLine 3.]'
+    );
+  });
+});
+
+describe('pull request versions', () => {
+  test('should mutate at the version the caller saw', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: pullRequest(3) });
+    mockApi.post.mockResolvedValueOnce({ data: pullRequest(4, { state: 'DECLINED' }) });
+
+    // Act
+    await declinePullRequest(mockApi as unknown as AxiosInstance, prParams, { version: 3, message: 'Superseded' });
+
+    // Assert
+    expect(mockApi.post).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/decline', {
+      version: 3,
+      message: 'Superseded'
+    });
+  });
+
+  test('should refuse a stale version without mutating', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: pullRequest(5) });
+
+    // Act
+    const declining = declinePullRequest(mockApi as unknown as AxiosInstance, prParams, { version: 3 });
+
+    // Assert
+    const error = await declining.catch(caught => caught);
+    expect(error).toMatchObject({
+      name: 'PullRequestConflictError',
+      conflict: { prId: 1, expectedVersion: 3, currentVersion: 5 }
+    });
+    expect(error.conflict).not.toHaveProperty('newCommits');
+    expect(error.conflict).not.toHaveProperty('changedFields');
+    expect(error.message).toBe('Pull request 1 changed: expected version 3, now at version 5 (OPEN). Re-read the pull request before retrying.');
+    expect(mockApi.post).not.toHaveBeenCalled();
+  });
+
+  test('should describe what changed when Bitbucket reports a conflict', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: pullRequest(3) })
+      .mockResolvedValueOnce({ data: pullRequest(4, { title: 'Add login page', fromRef: { id: 'refs/heads/feature', latestCommit: 'def456' } }) });
+    mockApi.post.mockRejectedValueOnce(apiError(409));
+
+    // Act
+    const declining = declinePullRequest(mockApi as unknown as AxiosInstance, prParams);
+
+    // Assert
+    await expect(declining).rejects.toMatchObject({
+      name: 'PullRequestConflictError',
+      conflict: { expectedVersion: 3, currentVersion: 4, newCommits: true, changedFields: ['title'] }
+    });
+  });
+});
+
+describe('whoami', () => {
+  test('should report the highest permission the user holds', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockImplementation(async (url: string, config?: { params?: Record<string, string> }) => {
+      const permission = config?.params?.permission;
+      switch (url) {
+        case '/application-properties':
+          return { data: {}, headers: { 'x-ausername': 'alice' } };
+        case '/users':
+          return { data: { values: [{ name: 'alice', slug: 'alice', displayName: 'Alice' }] } };
+        case '/admin/permissions/users':
+          throw apiError(403);
+        case '/projects/TEST':
+          return { data: { key: 'TEST', name: 'Test' } };
+        case '/projects':
+          return { data: { values: permission === 'PROJECT_ADMIN' ? [] : [{ key: 'TEST' }] } };
+        case '/projects/TEST/repos/repo':
+          return { data: { slug: 'repo', name: 'repo', project: { key: 'TEST', name: 'Test' } } };
+        case '/repos':
+          return { data: { values: [{ slug: 'repo', project: { key: 'TEST' } }] } };
+        default:
+          throw apiError(404);
+      }
+    });
+
+    // Act
+    const result = parse(await whoami(mockApi as unknown as AxiosInstance, 'token', 'TEST', 'repo'));
+
+    // Assert
+    expect(result).toEqual({
+      user: { name: 'alice', slug: 'alice', displayName: 'Alice' },
+      authMode: 'token',
+      permissions: { project: 'WRITE', repository: 'ADMIN' }
+    });
+    expect(mockApi.get).toHaveBeenCalledWith('/repos', {
+      params: { name: 'repo', projectname: 'Test', permission: 'REPO_ADMIN' }
+    });
+  });
+
+  test('should report no permission on a hidden project', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockImplementation(async (url: string) => {
+      if (url === '/application-properties') return { data: {}, headers: { 'x-ausername': 'bob' } };
+      if (url === '/users') return { data: { values: [] } };
+      if (url === '/admin/permissions/users') return { data: { values: [{ user: { name: 'bob' }, permission: 'LICENSED_USER' }] } };
+      throw apiError(404);
+    });
+
+    // Act
+    const result = parse(await whoami(mockApi as unknown as AxiosInstance, 'basic', 'SECRET'));
+
+    // Assert
+    expect(result.permissions).toEqual({ global: 'LICENSED_USER', project: 'NONE' });
+  });
+});
+
+describe('merge pre-flight', () => {
+  const vetoes = [
+    { summaryMessage: 'Nicht genügend Genehmigungen', detailedMessage: '2 Genehmigungen erforderlich' },
+    { summaryMessage: 'Custom check failed', key: 'com.example.checks:release-freeze' }
+  ];
+
+  test('should report vetoes as Bitbucket sent them', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { canMerge: false, conflicted: false, outcome: 'CLEAN', vetoes } });
+
+    // Act
+    const result = parse(await canMergePullRequest(mockApi as unknown as AxiosInstance, prParams));
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/merge');
+    expect(result).toEqual({ canMerge: false, conflicted: false, outcome: 'CLEAN', vetoes });
+  });
+
+  test('should refuse to merge on vetoes when checking first', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { canMerge: false, conflicted: true, outcome: 'CONFLICTED', vetoes: [] } });
+
+    // Act
+    const merging = mergePullRequest(mockApi as unknown as AxiosInstance, prParams, { checkFirst: true });
+
+    // Assert
+    await expect(merging).rejects.toMatchObject({ name: 'MergeVetoedError', check: { conflicted: true } });
+    expect(mockApi.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('pull request filters', () => {
+  test('should map filters onto Bitbucket query parameters', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [pullRequest(0)], isLastPage: true } });
+
+    // Act
+    const result = await listPullRequests(
+      mockApi as unknown as AxiosInstance,
+      'TEST',
+      'repo',
+      { state: 'MERGED', direction: 'OUTGOING', at: 'main', author: 'alice', reviewer: 'bob', order: 'OLDEST', filterText: 'login' },
+      { limit: 10 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests', {
+      params: {
+        state: 'MERGED',
+        direction: 'OUTGOING',
+        at: 'refs/heads/main',
+        order: 'OLDEST',
+        filterText: 'login',
+        'role.1': 'AUTHOR',
+        'username.1': 'alice',
+        'role.2': 'REVIEWER',
+        'username.2': 'bob',
+        start: 0,
+        limit: 10
+      }
+    });
+    expect(parse(result)).toMatchObject({ values: [{ id: 1, title: 'Add login' }], size: 1, isLastPage: true });
+  });
+
+  test('should number a lone reviewer filter as the first participant', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [], isLastPage: true } });
+
+    // Act
+    await listPullRequests(mockApi as unknown as AxiosInstance, 'TEST', 'repo', { reviewer: 'bob', at: 'refs/tags/v1' });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests', {
+      params: { at: 'refs/tags/v1', 'role.1': 'REVIEWER', 'username.1': 'bob', start: 0, limit: 100 }
+    });
+  });
+});
+
+describe('review inbox', () => {
+  test('should list open dashboard pull requests as summaries with their repository', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({
+      data: {
+        values: [pullRequest(0, {
+          author: { user: { name: 'alice' } },
+          fromRef: { id: 'refs/heads/feature', displayId: 'feature' },
+          toRef: { id: 'refs/heads/main', displayId: 'main', repository: { slug: 'repo', project: { key: 'TEST' } } },
+          reviewers: [{ user: { name: 'bob' }, status: 'UNAPPROVED' }],
+          updatedDate: Date.UTC(2024, 0, 2)
+        })],
+        isLastPage: true
+      }
+    });
+
+    // Act
+    const result = await getMyPullRequests(
+      mockApi as unknown as AxiosInstance,
+      { role: 'REVIEWER', participantStatus: 'UNAPPROVED', order: 'NEWEST' },
+      { limit: 5 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/dashboard/pull-requests', {
+      params: { state: 'OPEN', role: 'REVIEWER', participantStatus: 'UNAPPROVED', order: 'NEWEST', start: 0, limit: 5 }
+    });
+    expect(parse(result).values).toEqual([{
+      id: 1,
+      title: 'Add login',
+      state: 'OPEN',
+      repository: 'TEST/repo',
+      author: 'alice',
+      fromBranch: 'feature',
+      toBranch: 'main',
+      reviewers: [{ user: 'bob', status: 'UNAPPROVED' }],
+      updated: '2024-01-02T00:00:00.000Z'
+    }]);
+  });
+});
+
+describe('participants', () => {
+  test('should set the review status of the authenticated user', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: {}, headers: { 'x-ausername': 'Jane Doe' } })
+      .mockResolvedValueOnce({ data: { values: [{ name: 'Jane Doe', slug: 'jane.doe' }] } });
+    mockApi.put.mockResolvedValueOnce({ data: { user: { name: 'Jane Doe' }, role: 'REVIEWER', status: 'NEEDS_WORK' } });
+
+    // Act
+    const result = await setReviewStatus(mockApi as unknown as AxiosInstance, prParams, 'NEEDS_WORK', 'summary');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenLastCalledWith('/users', { params: { filter: 'Jane Doe' } });
+    expect(mockApi.put).toHaveBeenCalledWith(
+      '/projects/TEST/repos/repo/pull-requests/1/participants/jane.doe',
+      { user: { name: 'Jane Doe' }, approved: false, status: 'NEEDS_WORK' }
+    );
+    expect(parse(result)).toEqual({ user: 'Jane Doe', role: 'REVIEWER', status: 'NEEDS_WORK' });
+  });
+
+  test('should list the author, reviewers and participants', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({
+      data: pullRequest(3, {
+        author: { user: { name: 'alice' }, role: 'AUTHOR', status: 'UNAPPROVED' },
+        reviewers: [{ user: { name: 'bob' }, role: 'REVIEWER', status: 'APPROVED' }],
+        participants: [{ user: { name: 'carol' }, role: 'PARTICIPANT', status: 'UNAPPROVED' }]
+      })
+    });
+
+    // Act
+    const result = await listParticipants(mockApi as unknown as AxiosInstance, prParams, 'summary');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1');
+    expect(parse(result)).toEqual([
+      { user: 'alice', role: 'AUTHOR', status: 'UNAPPROVED' },
+      { user: 'bob', role: 'REVIEWER', status: 'APPROVED' },
+      { user: 'carol', role: 'PARTICIPANT', status: 'UNAPPROVED' }
+    ]);
+  });
+
+  test('should add and remove reviewers at the current version', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({
+      data: pullRequest(4, { reviewers: [{ user: { name: 'bob' } }, { user: { name: 'carol' } }] })
+    });
+    mockApi.put.mockResolvedValueOnce({ data: pullRequest(5) });
+
+    // Act
+    const result = await updateReviewers(mockApi as unknown as AxiosInstance, prParams, { add: ['dave', 'bob'], remove: ['carol'] });
+
+    // Assert
+    expect(mockApi.put).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1', {
+      version: 4,
+      title: 'Add login',
+      description: '',
+      reviewers: [{ user: { name: 'bob' } }, { user: { name: 'dave' } }]
+    });
+    expect(parse(result)).toMatchObject({ version: 5 });
+  });
+});
+
+describe('comment lifecycle', () => {
+  const commentUrl = '/projects/TEST/repos/repo/pull-requests/1/comments/7';
+  const comment = { id: 7, version: 2, text: 'Needs a test', severity: 'NORMAL', state: 'OPEN' };
+
+  test('should resolve and mark a comment as a blocker at its current version', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValue({ data: comment });
+    mockApi.put.mockResolvedValue({ data: { ...comment, version: 3 } });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    await editComment(api, prParams, 7, { state: 'RESOLVED' });
+    const result = await editComment(api, prParams, 7, { severity: 'BLOCKER' }, 2);
+
+    // Assert
+    expect(mockApi.put).toHaveBeenNthCalledWith(1, commentUrl, { version: 2, text: 'Needs a test', state: 'RESOLVED' });
+    expect(mockApi.put).toHaveBeenNthCalledWith(2, commentUrl, { version: 2, text: 'Needs a test', severity: 'BLOCKER' });
+    expect(parse(result)).toMatchObject({ id: 7, version: 3 });
+  });
+
+  test('should refuse to edit or delete a comment that changed since it was read', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValue({ data: comment });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const edit = editComment(api, prParams, 7, { text: 'Updated' }, 1);
+    const removal = deleteComment(api, prParams, 7, 1);
+
+    // Assert
+    await expect(edit).rejects.toThrow('Comment 7 changed: expected version 1, now at version 2.');
+    await expect(removal).rejects.toThrow('Comment 7 changed');
+    expect(mockApi.put).not.toHaveBeenCalled();
+    expect(mockApi.delete).not.toHaveBeenCalled();
+  });
+
+  test('should delete a comment at its current version', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: comment });
+    mockApi.delete.mockResolvedValueOnce({});
+
+    // Act
+    const result = await deleteComment(mockApi as unknown as AxiosInstance, prParams, 7);
+
+    // Assert
+    expect(mockApi.delete).toHaveBeenCalledWith(commentUrl, { params: { version: 2 } });
+    expect(result.content[0].text).toBe('Deleted comment 7');
+  });
+
+  test('should add and remove reactions through the comment-likes module', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL: 'https://bitbucket.example.com/rest/api/latest' } };
+    mockApi.put.mockResolvedValueOnce({});
+    mockApi.delete.mockResolvedValueOnce({});
+    const api = mockApi as unknown as AxiosInstance;
+    const reactionUrl = 'https://bitbucket.example.com/rest/comment-likes/latest/projects/TEST/repos/repo/pull-requests/1/comments/7/reactions/thumbsup';
+
+    // Act
+    const added = await reactToComment(api, prParams, 7, 'thumbsup');
+    const removed = await reactToComment(api, prParams, 7, 'thumbsup', true);
+
+    // Assert
+    expect(mockApi.put).toHaveBeenCalledWith(reactionUrl);
+    expect(mockApi.delete).toHaveBeenCalledWith(reactionUrl);
+    expect(added.content[0].text).toBe('Added :thumbsup: reaction on comment 7');
+    expect(removed.content[0].text).toBe('Removed :thumbsup: reaction on comment 7');
+  });
+
+  test('should return a comment with its nested replies', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { ...comment, comments: [{ id: 8, text: 'Added one' }] } });
+
+    // Act
+    const result = await getCommentThread(mockApi as unknown as AxiosInstance, prParams, 7);
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith(commentUrl);
+    expect(parse(result).comments).toEqual([{ id: 8, text: 'Added one' }]);
+  });
+});
+
+describe('tasks', () => {
+  const pullRequestUrl = '/projects/TEST/repos/repo/pull-requests/1';
+  const author = { name: 'alice' };
+  const created = Date.UTC(2024, 0, 2);
+
+  function serverVersion(mockApi: ReturnType<typeof createMockApi>, version: string) {
+    mockApi.get.mockResolvedValueOnce({ data: { version } });
+  }
+
+  test('should use blocker comments on Bitbucket 8 and later', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    serverVersion(mockApi, '8.9.0');
+    const blocker = { id: 9, version: 0, text: 'Add a test', state: 'OPEN', severity: 'BLOCKER', author, createdDate: created };
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [blocker], isLastPage: true } })
+      .mockResolvedValueOnce({ data: blocker });
+    mockApi.post.mockResolvedValueOnce({ data: blocker });
+    mockApi.put.mockResolvedValueOnce({ data: { ...blocker, version: 1, state: 'RESOLVED' } });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const listed = await listTasks(api, prParams, 'OPEN');
+    const createdTask = await createTask(api, prParams, 7, 'Add a test');
+    const resolved = await setTaskState(api, prParams, 9, 'RESOLVED');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith(`${pullRequestUrl}/blocker-comments`, { params: { state: 'OPEN', start: 0, limit: 100 } });
+    expect(mockApi.post).toHaveBeenCalledWith(`${pullRequestUrl}/comments`, { text: 'Add a test', parent: { id: 7 }, severity: 'BLOCKER' });
+    expect(mockApi.put).toHaveBeenCalledWith(`${pullRequestUrl}/comments/9`, { version: 0, text: 'Add a test', state: 'RESOLVED' });
+    expect(parse(listed).values).toEqual([
+      { id: 9, text: 'Add a test', state: 'OPEN', author: 'alice', created: '2024-01-02T00:00:00.000Z', source: 'blocker-comment' }
+    ]);
+    expect(parse(createdTask)).toMatchObject({ id: 9, source: 'blocker-comment' });
+    expect(parse(resolved)).toMatchObject({ id: 9, state: 'RESOLVED' });
+  });
+
+  test('should use the tasks API on older servers', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    serverVersion(mockApi, '7.21.0');
+    const task = { id: 3, text: 'Add a test', state: 'OPEN', author, createdDate: created, anchor: { id: 7 } };
+    mockApi.post.mockResolvedValueOnce({ data: task });
+    mockApi.put.mockResolvedValueOnce({ data: { ...task, state: 'RESOLVED' } });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const createdTask = await createTask(api, prParams, 7, 'Add a test');
+    const resolved = await setTaskState(api, prParams, 3, 'RESOLVED');
+
+    // Assert
+    expect(mockApi.post).toHaveBeenCalledWith('/tasks', { anchor: { id: 7, type: 'COMMENT' }, text: 'Add a test' });
+    expect(mockApi.put).toHaveBeenCalledWith('/tasks/3', { id: 3, state: 'RESOLVED' });
+    expect(parse(createdTask)).toEqual({
+      id: 3, text: 'Add a test', state: 'OPEN', author: 'alice', created: '2024-01-02T00:00:00.000Z', commentId: 7, source: 'task'
+    });
+    expect(parse(resolved)).toMatchObject({ id: 3, state: 'RESOLVED' });
+  });
+
+  test('should keep paging legacy tasks until the limit of tasks in the wanted state', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    serverVersion(mockApi, '7.21.0');
+    const task = (id: number, state: string) => ({ id, text: `Task ${id}`, state, author, createdDate: created });
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [task(1, 'RESOLVED'), task(2, 'OPEN')], isLastPage: false, nextPageStart: 2 } })
+      .mockResolvedValueOnce({ data: { values: [task(3, 'RESOLVED'), task(4, 'OPEN'), task(5, 'OPEN')], isLastPage: true } });
+
+    // Act
+    const result = await listTasks(mockApi as unknown as AxiosInstance, prParams, 'OPEN', { limit: 2 });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenLastCalledWith(`${pullRequestUrl}/tasks`, { params: { start: 2, limit: 100 } });
+    expect(parse(result)).toMatchObject({ values: [{ id: 2 }, { id: 4 }], size: 2, isLastPage: false, nextPageStart: 4 });
+  });
+});
+
+describe('updatePullRequest', () => {
+  const pullRequestUrl = '/projects/TEST/repos/repo/pull-requests/1';
+
+  test('should change only the given fields and keep the rest', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({
+      data: pullRequest(2, { description: 'Adds the login form', reviewers: [{ user: { name: 'bob' } }] })
+    });
+    mockApi.put.mockResolvedValueOnce({ data: pullRequest(3, { title: 'Add login page' }) });
+
+    // Act
+    const result = await updatePullRequest(mockApi as unknown as AxiosInstance, { ...prParams, title: 'Add login page' });
+
+    // Assert
+    expect(mockApi.put).toHaveBeenCalledWith(pullRequestUrl, {
+      version: 2,
+      title: 'Add login page',
+      description: 'Adds the login form',
+      reviewers: [{ user: { name: 'bob' } }]
+    });
+    expect(parse(result)).toMatchObject({ version: 3, title: 'Add login page' });
+  });
+
+  test('should retarget, replace reviewers and toggle draft', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: pullRequest(2, { reviewers: [{ user: { name: 'bob' } }] }) });
+    mockApi.put.mockResolvedValueOnce({ data: pullRequest(3) });
+
+    // Act
+    await updatePullRequest(mockApi as unknown as AxiosInstance, {
+      ...prParams,
+      targetBranch: 'release',
+      reviewers: ['carol'],
+      draft: false,
+      version: 2
+    });
+
+    // Assert
+    expect(mockApi.put).toHaveBeenCalledWith(pullRequestUrl, {
+      version: 2,
+      title: 'Add login',
+      description: '',
+      reviewers: [{ user: { name: 'carol' } }],
+      toRef: { id: 'refs/heads/release', repository: { slug: 'repo', project: { key: 'TEST' } } },
+      draft: false
+    });
+  });
+});
+
+describe('commits', () => {
+  const commitsUrl = '/projects/TEST/repos/repo/commits';
+  const commit = {
+    id: 'abc123def4567',
+    displayId: 'abc123d',
+    author: { name: 'alice' },
+    authorTimestamp: Date.UTC(2024, 0, 2),
+    message: 'Add login\n\nWith a form',
+    parents: [{ id: 'fff000', displayId: 'fff000' }]
+  };
+
+  test('should list history for a branch, range and path', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [commit], isLastPage: true } });
+
+    // Act
+    const result = await listCommits(
+      mockApi as unknown as AxiosInstance,
+      'TEST',
+      'repo',
+      { branch: 'feature', since: 'main', path: 'src/app.ts', merges: 'exclude' },
+      { limit: 20 },
+      'summary'
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith(commitsUrl, {
+      params: { until: 'feature', since: 'main', path: 'src/app.ts', merges: 'exclude', start: 0, limit: 20 }
+    });
+    expect(parse(result).values).toEqual([{
+      id: 'abc123def4567',
+      author: 'alice',
+      date: '2024-01-02T00:00:00.000Z',
+      message: 'Add login',
+      parents: ['fff000']
+    }]);
+  });
+
+  test('should get a commit with its changed files and diff', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: commit })
+      .mockResolvedValueOnce({ data: { values: [{ path: { toString: 'src/app.ts' }, type: 'ADD' }], isLastPage: true } })
+      .mockResolvedValueOnce({ data: 'diff --git a/src/app.ts b/src/app.ts' });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const details = await getCommit(api, 'TEST', 'repo', 'abc123def4567');
+    const changes = await getCommitChanges(api, 'TEST', 'repo', 'abc123def4567');
+    const diff = await getCommitDiff(api, 'TEST', 'repo', 'abc123def4567', { path: 'src/app.ts', contextLines: 3 });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenNthCalledWith(1, `${commitsUrl}/abc123def4567`);
+    expect(mockApi.get).toHaveBeenNthCalledWith(2, `${commitsUrl}/abc123def4567/changes`, { params: { start: 0, limit: 100 } });
+    expect(mockApi.get).toHaveBeenNthCalledWith(3, `${commitsUrl}/abc123def4567/diff/src/app.ts`, {
+      params: { contextLines: 3 },
+      headers: { Accept: 'text/plain' }
+    });
+    expect(parse(details)).toMatchObject({ id: 'abc123def4567' });
+    expect(parse(changes).values).toEqual([{ path: 'src/app.ts', type: 'ADD' }]);
+    expect(diff.content[0].text).toBe('diff --git a/src/app.ts b/src/app.ts');
+  });
+
+  test('should list the commits of a pull request', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [commit], isLastPage: false, nextPageStart: 1 } });
+
+    // Act
+    const result = await listPullRequestCommits(mockApi as unknown as AxiosInstance, prParams, { limit: 1 });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos/repo/pull-requests/1/commits', { params: { start: 0, limit: 1 } });
+    expect(parse(result)).toMatchObject({ values: [{ id: 'abc123def4567' }], isLastPage: false, nextPageStart: 1 });
+  });
+});
+
+describe('branches and tags', () => {
+  const repoUrl = '/projects/TEST/repos/repo';
+
+  test('should filter and order branches', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValueOnce({ data: { values: [{ id: 'refs/heads/feature', displayId: 'feature' }], isLastPage: true } });
+
+    // Act
+    const result = await listBranches(
+      mockApi as unknown as AxiosInstance,
+      'TEST',
+      'repo',
+      { filterText: 'feat', orderBy: 'MODIFICATION' },
+      { limit: 25 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith(`${repoUrl}/branches`, {
+      params: { filterText: 'feat', orderBy: 'MODIFICATION', start: 0, limit: 25 }
+    });
+    expect(parse(result).values).toEqual([{ id: 'refs/heads/feature', displayId: 'feature' }]);
+  });
+
+  test('should create branches and annotated or lightweight tags', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.post
+      .mockResolvedValueOnce({ data: { id: 'refs/heads/feature', displayId: 'feature' } })
+      .mockResolvedValueOnce({ data: { id: 'refs/tags/v1.0', displayId: 'v1.0' } })
+      .mockResolvedValueOnce({ data: { id: 'refs/tags/v1.1', displayId: 'v1.1' } });
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const branch = await createBranch(api, 'TEST', 'repo', { name: 'feature', startPoint: 'refs/heads/main' });
+    await createTag(api, 'TEST', 'repo', { name: 'v1.0', startPoint: 'abc123', message: 'Release 1.0' });
+    await createTag(api, 'TEST', 'repo', { name: 'v1.1', startPoint: 'def456' });
+
+    // Assert
+    expect(mockApi.post).toHaveBeenNthCalledWith(1, `${repoUrl}/branches`, { name: 'feature', startPoint: 'refs/heads/main' });
+    expect(mockApi.post).toHaveBeenNthCalledWith(2, `${repoUrl}/tags`, { name: 'v1.0', startPoint: 'abc123', message: 'Release 1.0' });
+    expect(mockApi.post).toHaveBeenNthCalledWith(3, `${repoUrl}/tags`, { name: 'v1.1', startPoint: 'def456' });
+    expect(parse(branch)).toEqual({ id: 'refs/heads/feature', displayId: 'feature' });
+  });
+
+  test('should delete branches through branch-utils and change the default branch', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL: 'https://bitbucket.example.com/rest/api/latest' } };
+    mockApi.delete.mockResolvedValueOnce({});
+    mockApi.put.mockResolvedValueOnce({});
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const deleted = await deleteBranch(api, 'TEST', 'repo', 'feature', 'abc123');
+    const changed = await setDefaultBranch(api, 'TEST', 'repo', 'develop');
+
+    // Assert
+    expect(mockApi.delete).toHaveBeenCalledWith(
+      'https://bitbucket.example.com/rest/branch-utils/latest/projects/TEST/repos/repo/branches',
+      { data: { name: 'refs/heads/feature', endPoint: 'abc123' } }
+    );
+    expect(mockApi.put).toHaveBeenCalledWith(`${repoUrl}/branches/default`, { id: 'refs/heads/develop' });
+    expect(deleted.content[0].text).toBe('Branch feature deleted');
+    expect(changed.content[0].text).toBe('Default branch set to develop');
+  });
+});
+
+describe('build status and insights', () => {
+  const baseURL = 'https://bitbucket.example.com/rest/api/latest';
+
+  const buildsUrl = 'https://bitbucket.example.com/rest/build-status/latest/commits/abc123';
+  const builds = [{ key: 'ci', state: 'SUCCESSFUL' }, { key: 'lint', state: 'FAILED' }, { key: 'e2e', state: 'SUCCESSFUL' }];
+
+  test('should list every build of a pull request commit from the build-status module', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL } };
+    mockApi.get
+      .mockResolvedValueOnce({ data: pullRequest(1) })
+      .mockResolvedValueOnce({ data: { values: builds, isLastPage: true } });
+
+    // Act
+    const result = await getBuildStatus(mockApi as unknown as AxiosInstance, prParams);
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+    expect(mockApi.get).toHaveBeenLastCalledWith(buildsUrl, { params: { start: 0, limit: 100 } });
+    expect(parse(result)).toEqual({ commitId: 'abc123', counts: { SUCCESSFUL: 2, FAILED: 1 }, builds });
+  });
+
+  test('should look up a build by key in the repository on Bitbucket 7.4 and later', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL } };
+    mockApi.get
+      .mockResolvedValueOnce({ data: { version: '7.21.0' } })
+      .mockResolvedValueOnce({ data: builds[1] });
+    const target = { project: 'TEST', repository: 'repo', commitId: 'abc123' };
+
+    // Act
+    const result = await getBuildStatus(mockApi as unknown as AxiosInstance, target, 'lint');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenLastCalledWith('/projects/TEST/repos/repo/commits/abc123/builds', { params: { key: 'lint' } });
+    expect(parse(result)).toEqual({ commitId: 'abc123', counts: { FAILED: 1 }, builds: [builds[1]] });
+  });
+
+  test('should pick a build by key from the list on older servers', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL } };
+    mockApi.get
+      .mockResolvedValueOnce({ data: { version: '7.3.0' } })
+      .mockResolvedValueOnce({ data: { values: builds, isLastPage: true } });
+    const target = { project: 'TEST', repository: 'repo', commitId: 'abc123' };
+
+    // Act
+    const result = await getBuildStatus(mockApi as unknown as AxiosInstance, target, 'e2e');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenLastCalledWith(buildsUrl, { params: { start: 0, limit: 100 } });
+    expect(parse(result).builds).toEqual([builds[2]]);
+  });
+
+  test('should publish a report and its annotations in batches', async () => {
+    // Arrange
+    const mockApi = { ...createMockApi(), defaults: { baseURL } };
+    mockApi.put.mockResolvedValueOnce({ data: { key: 'review', title: 'Review' } });
+    mockApi.post.mockResolvedValue({});
+    const annotations = Array.from({ length: 150 }, (_, index) => ({ message: `Finding ${index}`, severity: 'LOW' as const }));
+
+    // Act
+    const result = await publishInsightReport(
+      mockApi as unknown as AxiosInstance,
+      { project: 'TEST', repository: 'repo', commitId: 'abc123' },
+      { key: 'review', title: 'Review', result: 'FAIL', annotations }
+    );
+
+    // Assert
+    const reportUrl = 'https://bitbucket.example.com/rest/insights/latest/projects/TEST/repos/repo/commits/abc123/reports/review';
+    expect(mockApi.put).toHaveBeenCalledWith(reportUrl, { title: 'Review', result: 'FAIL' });
+    expect(mockApi.post).toHaveBeenCalledTimes(2);
+    expect(mockApi.post).toHaveBeenNthCalledWith(1, `${reportUrl}/annotations`, { annotations: annotations.slice(0, 100) });
+    expect(mockApi.post).toHaveBeenNthCalledWith(2, `${reportUrl}/annotations`, { annotations: annotations.slice(100) });
+    expect(parse(result)).toEqual({ commitId: 'abc123', report: { key: 'review', title: 'Review' }, annotations: 150 });
+  });
+});
+
+describe('compareRefs', () => {
+  const compareUrl = '/projects/TEST/repos/repo/compare';
+
+  test('should list the commits, changed files and diff a fork pull request would contain', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [{ id: 'abc123' }], isLastPage: true } })
+      .mockResolvedValueOnce({ data: { values: [{ path: { toString: 'src/app.ts' }, type: 'MODIFY' }], isLastPage: true } })
+      .mockResolvedValueOnce({ data: 'diff --git a/src/app.ts b/src/app.ts' });
+    const params = { from: 'feature', to: 'main', fromRepo: '~ALICE/repo' };
+
+    // Act
+    const result = await compareRefs(
+      mockApi as unknown as AxiosInstance,
+      { project: 'TEST', repository: 'repo', from: 'feature', to: 'main', fromProject: '~ALICE', fromRepository: 'repo' },
+      { includeDiff: true, contextLines: 3 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenNthCalledWith(1, `${compareUrl}/commits`, { params: { ...params, start: 0, limit: 100 } });
+    expect(mockApi.get).toHaveBeenNthCalledWith(2, `${compareUrl}/changes`, { params: { ...params, start: 0, limit: 100 } });
+    expect(mockApi.get).toHaveBeenNthCalledWith(3, `${compareUrl}/diff`, {
+      params: { ...params, contextLines: 3 },
+      headers: { Accept: 'text/plain' }
+    });
+    expect(result.content.map(part => part.text.split('\n')[0])).toEqual([
+      'Commits in ~ALICE/repo:feature..main:',
+      'Changed files in ~ALICE/repo:feature..main:',
+      'diff --git a/src/app.ts b/src/app.ts'
+    ]);
+  });
+
+  test('should page commits and changed files independently', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [{ id: 'abc123' }], isLastPage: false, nextPageStart: 11 } })
+      .mockResolvedValueOnce({ data: { values: [{ path: { toString: 'src/app.ts' }, type: 'MODIFY' }], isLastPage: true } });
+    const params = { from: 'feature', to: 'main' };
+
+    // Act
+    await compareRefs(
+      mockApi as unknown as AxiosInstance,
+      { project: 'TEST', repository: 'repo', ...params },
+      {},
+      { limit: 1, commitsStart: 10, changesStart: 0 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenNthCalledWith(1, `${compareUrl}/commits`, { params: { ...params, start: 10, limit: 1 } });
+    expect(mockApi.get).toHaveBeenNthCalledWith(2, `${compareUrl}/changes`, { params: { ...params, start: 0, limit: 1 } });
+  });
+
+  test('should leave out the diff unless asked for', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get.mockResolvedValue({ data: { values: [], isLastPage: true } });
+
+    // Act
+    const result = await compareRefs(mockApi as unknown as AxiosInstance, { project: 'TEST', repository: 'repo', from: 'feature', to: 'main' });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+    expect(mockApi.get).toHaveBeenCalledWith(`${compareUrl}/commits`, { params: { from: 'feature', to: 'main', start: 0, limit: 100 } });
+    expect(result.content).toHaveLength(2);
+  });
+});
+
+describe('suggestCodeChange', () => {
+  const pullRequestUrl = '/projects/TEST/repos/repo/pull-requests/1';
+  const fileDiff = {
+    diffs: [{
+      source: { toString: 'src/app.ts' },
+      destination: { toString: 'src/app.ts' },
+      hunks: [{ segments: [{ type: 'ADDED', lines: [{ source: 9, destination: 10 }, { source: 9, destination: 11 }] }] }]
+    }]
+  };
+
+  test('should post a native multi-line suggestion anchored on its last line on Bitbucket 8', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: { version: '8.9.0' } })
+      .mockResolvedValueOnce({ data: fileDiff });
+    mockApi.post.mockResolvedValueOnce({ data: { id: 5 } });
+
+    // Act
+    await suggestCodeChange(mockApi as unknown as AxiosInstance, prParams, {
+      filePath: 'src/app.ts',
+      line: 10,
+      endLine: 11,
+      suggestedCode: 'const user = login();\nreturn user;'
+    });
+
+    // Assert
+    expect(mockApi.post).toHaveBeenCalledWith(`${pullRequestUrl}/comments`, {
+      text: 'Suggestion for src/app.ts at lines 10-11\n\n```suggestion\nconst user = login();\nreturn user;\n```',
+      anchor: {
+        diffType: 'EFFECTIVE',
+        path: 'src/app.ts',
+        line: 11,
+        lineType: 'ADDED',
+        fileType: 'TO',
+        multilineMarker: { startLine: 10, startLineType: 'ADDED' }
+      },
+      parent: undefined
+    });
+  });
+
+  test('should show the replaced lines as a diff on older servers', async () => {
+    // Arrange
+    const mockApi = createMockApi();
+    mockApi.get
+      .mockResolvedValueOnce({ data: { version: '7.21.0' } })
+      .mockResolvedValueOnce({ data: pullRequest(1) })
+      .mockResolvedValueOnce({ data: Buffer.from(Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n')) })
+      .mockResolvedValueOnce({ data: fileDiff });
+    mockApi.post.mockResolvedValueOnce({ data: { id: 5 } });
+
+    // Act
+    await suggestCodeChange(mockApi as unknown as AxiosInstance, prParams, {
+      message: 'Simplify',
+      filePath: 'src/app.ts',
+      line: 10,
+      endLine: 11,
+      suggestedCode: 'merged line'
+    });
+
+    // Assert
+    expect(mockApi.get).toHaveBeenNthCalledWith(3, '/projects/TEST/repos/repo/raw/src/app.ts', {
+      params: { at: 'abc123' },
+      responseType: 'arraybuffer'
+    });
+    const [, payload] = mockApi.post.mock.calls[0];
+    expect(payload.text).toBe(
+      'Simplify\n\n```diff\n- line 10\n- line 11\n+ merged line\n```\n\nSuggested code:\n```\nmerged line\n```'
+    );
+    expect(payload.anchor).toEqual({ diffType: 'EFFECTIVE', path: 'src/app.ts', line: 11, lineType: 'ADDED', fileType: 'TO' });
+  });
+});
+
+describe('searchCode', () => {
+  const searchUrl = 'https://bitbucket.example.com/rest/search/latest/search';
+
+  function searchApi() {
+    return { ...createMockApi(), defaults: { baseURL: 'https://bitbucket.example.com/rest/api/latest' } };
+  }
+
+  test('should post a scoped query and map nextStart to nextPageStart', async () => {
+    // Arrange
+    const mockApi = searchApi();
+    mockApi.post.mockResolvedValueOnce({
+      data: {
+        code: {
+          count: 40,
+          isLastPage: false,
+          nextStart: 15,
+          values: [{
+            repository: { slug: 'api', name: 'API', project: { key: 'PROJ' } },
+            file: 'src/config.ts',
+            hitContexts: [[{ line: 10, text: 'export function <em>parseConfig</em>() {' }]],
+            pathMatches: [],
+            hitCount: 1
+          }]
+        }
+      }
+    });
+
+    // Act
+    const result = await searchCode(
+      mockApi as unknown as AxiosInstance,
+      { query: 'parseConfig', project: 'PROJ', repository: 'api' },
+      { limit: 5, start: 10 }
+    );
+
+    // Assert
+    expect(mockApi.post).toHaveBeenCalledWith(searchUrl, {
+      query: 'parseConfig project:PROJ repo:api',
+      entities: { code: { start: 10, limit: 5 } },
+      limits: { primary: 5, secondary: 10 }
+    });
+    expect(parse(result)).toEqual({
+      total: 40,
+      values: [{
+        project: 'PROJ',
+        repository: 'api',
+        path: 'src/config.ts',
+        hitCount: 1,
+        lines: [{ line: 10, text: 'export function **parseConfig**() {' }]
+      }],
+      size: 1,
+      isLastPage: false,
+      nextPageStart: 15
+    });
+  });
+
+  test('should report search as unavailable when the server has none', async () => {
+    // Arrange
+    const mockApi = searchApi();
+    mockApi.post
+      .mockRejectedValueOnce(apiError(404))
+      .mockRejectedValueOnce(apiError(503));
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const missing = await searchCode(api, { query: 'TODO' });
+    const unavailable = await searchCode(api, { query: 'TODO' });
+
+    // Assert
+    expect(missing).toMatchObject({ isError: true });
+    expect(parse(missing)).toMatchObject({ category: 'unavailable', status: 404, message: 'Code search is not available on this Bitbucket instance' });
+    expect(parse(unavailable)).toMatchObject({ category: 'unavailable', status: 503 });
+  });
+
+  test('should rethrow other failures', async () => {
+    // Arrange
+    const mockApi = searchApi();
+    mockApi.post.mockRejectedValueOnce(apiError(400));
+
+    // Act
+    const searching = searchCode(mockApi as unknown as AxiosInstance, { query: 'TODO' });
+
+    // Assert
+    await expect(searching).rejects.toMatchObject({ response: { status: 400 } });
+  });
+});
@@ -0,0 +1,115 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BitbucketServer } from '../src/bitbucket-server';
+
+const mockApi = { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn(), defaults: {} };
+
+jest.mock('../src/api-clients', () => ({
+  createApiClient: () => mockApi,
+  createUserClientCache: () => () => mockApi
+}));
+
+function apiError(status: number, data: unknown) {
+  const config = { headers: new AxiosHeaders(), method: 'get', url: '/projects/TEST/repos/repo' } as InternalAxiosRequestConfig;
+  const response = { status, data, headers: {}, config, statusText: '' } as AxiosResponse;
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, undefined, response);
+}
+
+async function connect(env: Record<string, string>) {
+  process.env = { BITBUCKET_URL: 'https://bitbucket.example.com', ...env };
+  const bitbucket = new BitbucketServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await (bitbucket as unknown as { server: Server }).server.connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return { isError: result.isError, content, body: JSON.parse(content.text) };
+}
+
+describe('BitbucketServer tool calls', () => {
+  const originalEnv = process.env;
+  let client: Client;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    client = await connect({ BITBUCKET_TOKEN: 'test-token' });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    process.env = originalEnv;
+  });
+
+  test('should classify Bitbucket errors', async () => {
+    // Arrange
+    mockApi.get.mockRejectedValueOnce(apiError(404, {
+      errors: [{
+        message: 'Pull request 1 does not exist in TEST/repo.',
+        exceptionName: 'com.atlassian.bitbucket.pull.NoSuchPullRequestException'
+      }]
+    }));
+
+    // Act
+    const result = await callTool(client, 'get_pull_request', { project: 'TEST', repository: 'repo', prId: 1 });
+
+    // Assert
+    expect(result.isError).toBe(true);
+    expect(result.content.type).toBe('text');
+    expect(result.body).toMatchObject({
+      category: 'not-found',
+      status: 404,
+      message: 'Pull request 1 does not exist in TEST/repo.'
+    });
+  });
+
+  test('should suggest repositories when one is not found', async () => {
+    // Arrange
+    mockApi.get
+      .mockRejectedValueOnce(apiError(404, {
+        errors: [{
+          message: 'Repository TEST/frontnd does not exist.',
+          exceptionName: 'com.atlassian.bitbucket.repository.NoSuchRepositoryException'
+        }]
+      }))
+      .mockResolvedValueOnce({ data: { values: [{ slug: 'frontend' }, { slug: 'backend' }], isLastPage: true } });
+
+    // Act
+    const result = await callTool(client, 'get_repository_details', { project: 'TEST', repository: 'frontnd' });
+
+    // Assert
+    expect(result.body.hint).toBe('Repository slug frontnd not found in project TEST; did you mean frontend?');
+  });
+
+  test('should return input errors in the same shape', async () => {
+    // Act
+    const missingProject = await callTool(client, 'list_repositories', {});
+    const unknownTool = await callTool(client, 'no_such_tool', { project: 'TEST' });
+
+    // Assert
+    expect(missingProject.isError).toBe(true);
+    expect(missingProject.content.type).toBe('text');
+    expect(missingProject.body).toMatchObject({ category: 'validation' });
+    expect(unknownTool.body).toMatchObject({ category: 'validation', message: 'Unknown tool: no_such_tool' });
+  });
+
+  test('should not require per-user tokens over stdio', async () => {
+    // Arrange
+    await client.close();
+    client = await connect({ BITBUCKET_TOKEN: 'test-token', BITBUCKET_REQUIRE_USER_TOKEN: 'true' });
+    mockApi.get.mockResolvedValueOnce({ data: { slug: 'repo', name: 'repo' } });
+
+    // Act
+    const result = await callTool(client, 'get_repository_details', { project: 'TEST', repository: 'repo' });
+
+    // Assert
+    expect(result.isError).toBeFalsy();
+    expect(result.body).toMatchObject({ slug: 'repo' });
+  });
+});
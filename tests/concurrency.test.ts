@@ -0,0 +1,25 @@
+import { mapWithConcurrency } from '../src/concurrency';
+
+describe('mapWithConcurrency', () => {
+  test('should bound in-flight calls and keep results in order', async () => {
+    // Arrange
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const work = async (item: number) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5 - item));
+      inFlight--;
+      if (item === 2) throw new Error('boom');
+      return item * 10;
+    };
+
+    // Act
+    const results = await mapWithConcurrency([0, 1, 2, 3, 4], 2, work);
+
+    // Assert
+    expect(maxInFlight).toBe(2);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    expect(results[4]).toEqual({ status: 'fulfilled', value: 40 });
+  });
+});
@@ -0,0 +1,90 @@
+import { diffStats, globToRegExp, limitDiffText, resolveAnchor } from '../src/diff';
+import { InvalidAnchorError } from '../src/errors';
+import { BitbucketDiff } from '../src/types';
+
+describe('diff helpers', () => {
+  test('should match path globs', () => {
+    // Arrange
+    const matcher = globToRegExp('src/**/*.{ts,tsx}');
+
+    // Assert
+    expect(matcher.test('src/index.ts')).toBe(true);
+    expect(matcher.test('src/components/App.tsx')).toBe(true);
+    expect(matcher.test('src/styles.css')).toBe(false);
+    expect(matcher.test('tests/index.ts')).toBe(false);
+  });
+
+  test('should count added and removed lines per file', () => {
+    // Arrange
+    const diff: BitbucketDiff = {
+      diffs: [{
+        source: { toString: 'old.ts' },
+        destination: { toString: 'new.ts' },
+        hunks: [{
+          sourceLine: 1,
+          sourceSpan: 2,
+          destinationLine: 1,
+          destinationSpan: 3,
+          segments: [
+            { type: 'REMOVED', lines: [{ source: 1, destination: 1, line: 'a' }] },
+            { type: 'ADDED', lines: [{ source: 2, destination: 1, line: 'b' }, { source: 2, destination: 2, line: 'c' }] }
+          ]
+        }]
+      }, {
+        source: { toString: 'gone.ts' },
+        destination: null
+      }]
+    };
+
+    // Act
+    const stats = diffStats(diff);
+
+    // Assert
+    expect(stats.get('new.ts')).toEqual({ added: 2, removed: 1 });
+    expect(stats.get('gone.ts')).toEqual({ added: 0, removed: 0 });
+  });
+
+  test('should truncate text diffs at a line boundary with a notice', () => {
+    // Act
+    const text = limitDiffText('line one\nline two\nline three', 12);
+
+    // Assert
+    expect(text).toMatch(/^line one\n\n\[Diff truncated: showing 8 of 28 characters/);
+  });
+
+  describe('resolveAnchor', () => {
+    const diff: BitbucketDiff = {
+      diffs: [{
+        source: { toString: 'src/app.ts' },
+        destination: { toString: 'src/app.ts' },
+        hunks: [{
+          sourceLine: 10,
+          sourceSpan: 3,
+          destinationLine: 10,
+          destinationSpan: 3,
+          segments: [
+            { type: 'CONTEXT', lines: [{ source: 10, destination: 10, line: 'a' }] },
+            { type: 'REMOVED', lines: [{ source: 11, destination: 11, line: 'b' }] },
+            { type: 'ADDED', lines: [{ source: 12, destination: 11, line: 'c' }] },
+            { type: 'CONTEXT', lines: [{ source: 12, destination: 12, line: 'd' }] }
+          ]
+        }]
+      }]
+    };
+
+    test('should prefer new file lines and infer the line type', () => {
+      // Act & Assert
+      expect(resolveAnchor(diff, 'src/app.ts', 11)).toEqual({ line: 11, lineType: 'ADDED', fileType: 'TO' });
+      expect(resolveAnchor(diff, 'src/app.ts', 11, 'REMOVED')).toEqual({ line: 11, lineType: 'REMOVED', fileType: 'FROM' });
+    });
+
+    test('should list nearest commentable lines for an invalid anchor', () => {
+      // Act & Assert
+      expect(() => resolveAnchor(diff, 'src/app.ts', 40)).toThrow(InvalidAnchorError);
+      expect(() => resolveAnchor(diff, 'src/app.ts', 40)).toThrow(
+        'Line 40 of src/app.ts is not part of the pull request diff. ' +
+        'Nearest commentable lines: 10 (CONTEXT), 11 (REMOVED, old file), 11 (ADDED), 12 (CONTEXT)'
+      );
+    });
+  });
+});
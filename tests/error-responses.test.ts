@@ -0,0 +1,111 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { classifyError, errorLogFields } from '../src/error-responses';
+import { CommentConflictError, InvalidAnchorError } from '../src/errors';
+import { closestMatches } from '../src/fuzzy';
+
+function apiError(status: number, data: unknown) {
+  const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = { status, data, headers: {}, config, statusText: '' } as AxiosResponse;
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, undefined, response);
+}
+
+describe('error classification', () => {
+  test('should keep Bitbucket error details', () => {
+    // Arrange
+    const error = apiError(404, {
+      errors: [{
+        context: null,
+        message: 'Repository PROJ/apii does not exist.',
+        exceptionName: 'com.atlassian.bitbucket.repository.NoSuchRepositoryException'
+      }]
+    });
+
+    // Act
+    const classified = classifyError(error);
+
+    // Assert
+    expect(classified).toMatchObject({
+      category: 'not-found',
+      status: 404,
+      message: 'Repository PROJ/apii does not exist.',
+      exceptionName: 'com.atlassian.bitbucket.repository.NoSuchRepositoryException'
+    });
+    expect(classified.errors).toHaveLength(1);
+    expect(classified.hint).toBeDefined();
+  });
+
+  test('should classify statuses and merge vetoes', () => {
+    // Assert
+    expect(classifyError(apiError(401, {})).category).toBe('authentication-failed');
+    expect(classifyError(apiError(403, {})).category).toBe('permission-denied');
+    expect(classifyError(apiError(400, {})).category).toBe('validation');
+    expect(classifyError(apiError(429, {})).category).toBe('rate-limited');
+    expect(classifyError(apiError(503, {})).category).toBe('unavailable');
+    expect(classifyError(apiError(409, {
+      errors: [{
+        message: 'Merging the pull request has been vetoed.',
+        exceptionName: 'com.atlassian.bitbucket.pull.PullRequestMergeVetoedException',
+        vetoes: [{ summaryMessage: 'Not enough approvals', detailedMessage: '2 approvals required' }]
+      }]
+    }))).toMatchObject({
+      category: 'merge-veto',
+      details: { vetoes: [{ summaryMessage: 'Not enough approvals' }] }
+    });
+  });
+
+  test('should treat any error carrying vetoes as a merge veto', () => {
+    // Arrange
+    const vetoes = [{ summaryMessage: 'Freigabe fehlt', detailedMessage: 'Release freeze' }];
+
+    // Act
+    const classified = classifyError(apiError(409, {
+      errors: [{ message: 'Merge blocked', exceptionName: 'com.example.ReleaseFreezeException', vetoes }]
+    }));
+
+    // Assert
+    expect(classified).toMatchObject({ category: 'merge-veto', details: { vetoes } });
+  });
+
+  test("should classify the server's own errors", () => {
+    // Assert
+    expect(classifyError(new InvalidAnchorError('Line 3 is not in the diff')).category).toBe('validation');
+    expect(classifyError(new CommentConflictError(7, 1, 2))).toMatchObject({
+      category: 'conflict',
+      details: { commentId: 7, expectedVersion: 1, currentVersion: 2 }
+    });
+    expect(classifyError(new Error('boom'))).toMatchObject({ category: 'internal', message: 'boom' });
+  });
+});
+
+describe('errorLogFields', () => {
+  test('should leave credentials out of logged errors', () => {
+    // Arrange
+    const error = apiError(401, {});
+    error.config = {
+      ...error.config,
+      method: 'get',
+      url: '/projects',
+      headers: new AxiosHeaders({ Authorization: 'Bearer secret-token' }),
+      auth: { username: 'alice', password: 'secret-password' }
+    } as InternalAxiosRequestConfig;
+
+    // Act
+    const logged = JSON.stringify(errorLogFields(error));
+
+    // Assert
+    expect(JSON.parse(logged)).toMatchObject({ method: 'get', url: '/projects', status: 401, error: { category: 'authentication-failed' } });
+    expect(logged).not.toContain('secret');
+  });
+});
+
+describe('closestMatches', () => {
+  test('should suggest similar names, closest first', () => {
+    // Act
+    const matches = closestMatches('paymnet-api', ['payment-api', 'payments', 'web', 'payment-api-client']);
+
+    // Assert
+    expect(matches).toEqual(['payment-api']);
+    expect(closestMatches('API', ['frontend', 'api-gateway', 'apis'])).toEqual(['api-gateway', 'apis']);
+    expect(closestMatches('zzz', ['frontend'])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { formatResponse } from '../src/formatting';
+
+describe('formatResponse', () => {
+  const pullRequest = {
+    id: 42,
+    version: 3,
+    title: 'Add pagination',
+    state: 'OPEN',
+    createdDate: 0,
+    updatedDate: 1700000000000,
+    fromRef: { id: 'refs/heads/feature', displayId: 'feature' },
+    toRef: {
+      id: 'refs/heads/main',
+      displayId: 'main',
+      repository: { slug: 'repo', project: { key: 'TEST' } }
+    },
+    author: { user: { name: 'alice' }, role: 'AUTHOR', approved: false, status: 'UNAPPROVED' },
+    reviewers: [{ user: { name: 'bob' }, role: 'REVIEWER', approved: true, status: 'APPROVED' }],
+    links: { self: [{ href: 'https://bitbucket.example.com/pr/42' }] }
+  };
+
+  test('should return raw JSON by default', () => {
+    // Act
+    const text = formatResponse(pullRequest, 'pullRequest');
+
+    // Assert
+    expect(JSON.parse(text)).toEqual(pullRequest);
+  });
+
+  test('should project pages of entities to summaries', () => {
+    // Arrange
+    const page = { values: [pullRequest], size: 1, isLastPage: false, nextPageStart: 1 };
+
+    // Act
+    const summary = JSON.parse(formatResponse(page, 'pullRequest', 'summary'));
+
+    // Assert
+    expect(summary).toEqual({
+      values: [{
+        id: 42,
+        title: 'Add pagination',
+        state: 'OPEN',
+        repository: 'TEST/repo',
+        author: 'alice',
+        fromBranch: 'feature',
+        toBranch: 'main',
+        reviewers: [{ user: 'bob', status: 'APPROVED' }],
+        updated: '2023-11-14T22:13:20.000Z',
+        url: 'https://bitbucket.example.com/pr/42'
+      }],
+      size: 1,
+      isLastPage: false,
+      nextPageStart: 1
+    });
+  });
+
+  test('should render markdown with a paging hint', () => {
+    // Arrange
+    const page = { values: [pullRequest], size: 1, isLastPage: false, nextPageStart: 1 };
+
+    // Act
+    const markdown = formatResponse(page, 'pullRequest', 'markdown');
+
+    // Assert
+    expect(markdown).toContain('**#42 Add pagination** [OPEN] TEST/repo `feature` → `main` by alice; reviewers: bob (APPROVED)');
+    expect(markdown).toContain('more available from start=1');
+  });
+
+  test('should mark annotated tags in markdown', () => {
+    // Arrange
+    const tags = [
+      { id: 'refs/tags/v1.0.0', displayId: 'v1.0.0', latestCommit: 'aaaaaaaaaaaaaaaa', hash: 'bbbbbbbbbbbbbbbb' },
+      { id: 'refs/tags/v0.9.0', displayId: 'v0.9.0', latestCommit: 'cccccccccccccccc', hash: null }
+    ];
+
+    // Act
+    const markdown = formatResponse(tags, 'tag', 'markdown');
+
+    // Assert
+    expect(markdown).toBe('- `v1.0.0` (annotated) at aaaaaaaaaaa\n- `v0.9.0` at ccccccccccc');
+  });
+});
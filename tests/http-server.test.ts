@@ -0,0 +1,199 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import winston from 'winston';
+import { HttpServerHandle, startHttpServer } from '../src/http-server';
+
+const logger = winston.createLogger({ silent: true });
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+function createMcpServer() {
+  return new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+}
+
+// Answers every tool call with the Bitbucket token the call was made with
+function createTokenEchoServer() {
+  const server = createMcpServer();
+  server.setRequestHandler(CallToolRequestSchema, async (_request, extra) => ({
+    content: [{ type: 'text', text: `token:${extra.authInfo?.token ?? 'none'}` }]
+  }));
+  return server;
+}
+
+const callTool = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami', arguments: {} } };
+
+function post(handle: HttpServerHandle, path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`http://127.0.0.1:${handle.port}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+async function openSession(handle: HttpServerHandle, headers: Record<string, string> = {}) {
+  const response = await post(handle, '/mcp', initialize, headers);
+  await response.text();
+  return response.headers.get('mcp-session-id') as string;
+}
+
+async function health(handle: HttpServerHandle) {
+  const response = await fetch(`http://127.0.0.1:${handle.port}/health`);
+  return response.json();
+}
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle;
+
+  afterEach(async () => {
+    await handle?.close();
+  });
+
+  test('should report health and open Streamable HTTP sessions', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0 }, logger);
+
+    // Act
+    const sessionId = await openSession(handle);
+    const listed = await post(handle, '/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'mcp-session-id': sessionId });
+
+    // Assert
+    expect(sessionId).toBeTruthy();
+    expect(listed.status).toBe(200);
+    expect(await listed.text()).toContain('"id":2');
+    expect(await health(handle)).toEqual({ status: 'ok', sessions: 1 });
+  });
+
+  test('should refuse requests without a known session', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0 }, logger);
+
+    // Act
+    const withoutSession = await post(handle, '/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const unknownSession = await post(handle, '/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'mcp-session-id': 'missing' });
+    const unknownSseSession = await post(handle, '/messages?sessionId=missing', initialize);
+
+    // Assert
+    expect(withoutSession.status).toBe(400);
+    expect(unknownSession.status).toBe(404);
+    expect(unknownSseSession.status).toBe(404);
+  });
+
+  test('should refuse bodies over the size limit', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0 }, logger);
+
+    // Act
+    const response = await post(handle, '/mcp', JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }));
+
+    // Assert
+    expect(response.status).toBe(413);
+  });
+
+  test('should serve the SSE transport with its message endpoint', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0 }, logger);
+    const stream = await fetch(`http://127.0.0.1:${handle.port}/sse`);
+    const reader = (stream.body as ReadableStream<Uint8Array>).getReader();
+    const { value } = await reader.read();
+    const endpoint = /data: (\S+)/.exec(new TextDecoder().decode(value))?.[1] as string;
+
+    // Act
+    const response = await post(handle, endpoint, initialize);
+
+    // Assert
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+    expect(response.status).toBe(202);
+    expect(await health(handle)).toEqual({ status: 'ok', sessions: 1 });
+    await reader.cancel();
+  });
+
+  test('should close idle Streamable HTTP sessions', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 10 }, logger);
+    await openSession(handle);
+
+    // Act
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    // Assert
+    expect(await health(handle)).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  test('should stop listening and end sessions on close', async () => {
+    // Arrange
+    handle = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0 }, logger);
+    await openSession(handle);
+
+    // Act
+    await handle.close();
+
+    // Assert
+    await expect(health(handle)).rejects.toThrow();
+  });
+
+  describe('per-user tokens', () => {
+    test('should pass the session token to tool calls that present it', async () => {
+      // Arrange
+      handle = await startHttpServer(createTokenEchoServer, { host: '127.0.0.1', port: 0 }, logger);
+      const sessionId = await openSession(handle, { 'X-Bitbucket-Token': 'alice-token' });
+
+      // Act
+      const response = await post(handle, '/mcp', callTool, { 'mcp-session-id': sessionId, Authorization: 'Bearer alice-token' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain('token:alice-token');
+    });
+
+    test('should refuse requests with a different token or none', async () => {
+      // Arrange
+      handle = await startHttpServer(createTokenEchoServer, { host: '127.0.0.1', port: 0 }, logger);
+      const sessionId = await openSession(handle, { 'X-Bitbucket-Token': 'alice-token' });
+
+      // Act
+      const mismatched = await post(handle, '/mcp', callTool, { 'mcp-session-id': sessionId, 'X-Bitbucket-Token': 'bob-token' });
+      const missing = await post(handle, '/mcp', callTool, { 'mcp-session-id': sessionId });
+
+      // Assert
+      expect(mismatched.status).toBe(403);
+      expect(missing.status).toBe(401);
+    });
+
+    test('should keep sessions opened without a token on the server identity', async () => {
+      // Arrange
+      handle = await startHttpServer(createTokenEchoServer, { host: '127.0.0.1', port: 0 }, logger);
+      const sessionId = await openSession(handle);
+
+      // Act
+      const anonymous = await post(handle, '/mcp', callTool, { 'mcp-session-id': sessionId });
+      const withToken = await post(handle, '/mcp', callTool, { 'mcp-session-id': sessionId, 'X-Bitbucket-Token': 'bob-token' });
+
+      // Assert
+      expect(await anonymous.text()).toContain('token:none');
+      expect(withToken.status).toBe(403);
+    });
+
+    test('should bind SSE sessions to their token', async () => {
+      // Arrange
+      handle = await startHttpServer(createTokenEchoServer, { host: '127.0.0.1', port: 0 }, logger);
+      const stream = await fetch(`http://127.0.0.1:${handle.port}/sse`, { headers: { 'X-Bitbucket-Token': 'alice-token' } });
+      const reader = (stream.body as ReadableStream<Uint8Array>).getReader();
+      const { value } = await reader.read();
+      const endpoint = /data: (\S+)/.exec(new TextDecoder().decode(value))?.[1] as string;
+
+      // Act
+      const missing = await post(handle, endpoint, initialize);
+      const matching = await post(handle, endpoint, initialize, { 'X-Bitbucket-Token': 'alice-token' });
+
+      // Assert
+      expect(missing.status).toBe(401);
+      expect(matching.status).toBe(202);
+      await reader.cancel();
+    });
+  });
+});
@@ -13,6 +13,7 @@ type ToolResponse = {
     type: string;
     text: string;
   }>;
+  isError?: boolean;
 };
 
 type ToolRequest = {
@@ -23,6 +24,9 @@ type ToolRequest = {
 
 type RequestExtra = {
   signal: AbortSignal;
+  requestId: number;
+  sendNotification: jest.Mock;
+  sendRequest: jest.Mock;
 };
 
 // Mock Server class
@@ -126,7 +130,10 @@ describe('BitbucketServer', () => {
       };
 
       const extra: RequestExtra = {
-        signal: mockAbortController.signal
+        signal: mockAbortController.signal,
+        requestId: 1,
+        sendNotification: jest.fn(),
+        sendRequest: jest.fn()
       };
 
       return callHandler(request, extra) as Promise<ToolResponse>;
@@ -221,6 +228,7 @@ describe('BitbucketServer', () => {
         strategy: 'squash' as const
       };
 
+      mockAxios.get.mockResolvedValueOnce({ data: { id: 1, version: 3 } });
       mockAxios.post.mockResolvedValueOnce({ data: { state: 'MERGED' } });
 
       // Act
@@ -230,7 +238,7 @@ describe('BitbucketServer', () => {
       expect(mockAxios.post).toHaveBeenCalledWith(
         '/projects/TEST/repos/repo/pull-requests/1/merge',
         expect.objectContaining({
-          version: -1,
+          version: 3,
           message: input.message,
           strategy: input.strategy
         })
@@ -249,19 +257,27 @@ describe('BitbucketServer', () => {
       const error = {
         isAxiosError: true,
         response: {
+          status: 404,
           data: {
-            message: 'Not found'
+            errors: [{
+              message: 'Pull request 1 does not exist in TEST/repo.',
+              exceptionName: 'com.atlassian.bitbucket.pull.NoSuchPullRequestException'
+            }]
           }
         }
       };
       mockAxios.get.mockRejectedValueOnce(error);
 
-      // Act & Assert
-      await expect(mockHandleRequest('get_pull_request', input))
-        .rejects.toThrow(new McpError(
-          ErrorCode.InternalError,
-          'Bitbucket API error: Not found'
-        ));
+      // Act
+      const result = await mockHandleRequest('get_pull_request', input);
+
+      // Assert
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        category: 'not-found',
+        status: 404,
+        message: 'Pull request 1 does not exist in TEST/repo.'
+      });
     });
   });
 
@@ -280,7 +296,10 @@ describe('BitbucketServer', () => {
       };
 
       const extra: RequestExtra = {
-        signal: mockAbortController.signal
+        signal: mockAbortController.signal,
+        requestId: 1,
+        sendNotification: jest.fn(),
+        sendRequest: jest.fn()
       };
 
       return callHandler(request, extra) as Promise<ToolResponse>;
@@ -308,7 +327,7 @@ describe('BitbucketServer', () => {
       const result = await mockHandleRequest('get_reviews', input);
 
       // Assert
-      const reviews = JSON.parse(result.content[0].text);
+      const reviews = JSON.parse(result.content[0].text).values;
       expect(reviews).toHaveLength(2);
       expect(reviews.every((r: { action: string }) => 
         ['APPROVED', 'REVIEWED'].includes(r.action)
@@ -0,0 +1,91 @@
+import { AxiosInstance } from 'axios';
+import { fetchPaged, fetchPagedMatching } from '../src/pagination';
+
+describe('fetchPaged', () => {
+  let mockApi: { get: jest.Mock };
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn() };
+  });
+
+  test('should follow nextPageStart until the last page', async () => {
+    // Arrange
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [1, 2], isLastPage: false, nextPageStart: 2 } })
+      .mockResolvedValueOnce({ data: { values: [3], isLastPage: true } });
+
+    // Act
+    const result = await fetchPaged<number>(mockApi as unknown as AxiosInstance, '/projects/TEST/repos');
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+    expect(mockApi.get).toHaveBeenLastCalledWith('/projects/TEST/repos', { params: { start: 2, limit: 100 } });
+    expect(result).toEqual({ values: [1, 2, 3], size: 3, isLastPage: true });
+  });
+
+  test('should stop at the limit and return a cursor', async () => {
+    // Arrange
+    mockApi.get.mockResolvedValueOnce({ data: { values: [6, 7], isLastPage: false, nextPageStart: 7 } });
+
+    // Act
+    const result = await fetchPaged<number>(
+      mockApi as unknown as AxiosInstance,
+      '/projects/TEST/repos',
+      { limit: 2, start: 5 },
+      { state: 'OPEN' }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledWith('/projects/TEST/repos', {
+      params: { state: 'OPEN', start: 5, limit: 2 }
+    });
+    expect(result).toEqual({ values: [6, 7], size: 2, isLastPage: false, nextPageStart: 7 });
+  });
+});
+
+describe('fetchPagedMatching', () => {
+  let mockApi: { get: jest.Mock };
+  const isEven = (value: number) => value % 2 === 0;
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn() };
+  });
+
+  test('should keep paging until the limit of matching items is reached', async () => {
+    // Arrange
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [1, 3, 4], isLastPage: false, nextPageStart: 3 } })
+      .mockResolvedValueOnce({ data: { values: [5, 6, 8, 9], isLastPage: false, nextPageStart: 7 } });
+
+    // Act
+    const result = await fetchPagedMatching<number>(
+      mockApi as unknown as AxiosInstance,
+      '/activities',
+      isEven,
+      { limit: 2 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenLastCalledWith('/activities', { params: { start: 3, limit: 100 } });
+    expect(result).toEqual({ values: [4, 6], size: 2, isLastPage: false, nextPageStart: 5 });
+  });
+
+  test('should return fewer items when the last page is reached', async () => {
+    // Arrange
+    mockApi.get
+      .mockResolvedValueOnce({ data: { values: [1, 2], isLastPage: false, nextPageStart: 2 } })
+      .mockResolvedValueOnce({ data: { values: [3], isLastPage: true } });
+
+    // Act
+    const result = await fetchPagedMatching<number>(
+      mockApi as unknown as AxiosInstance,
+      '/activities',
+      isEven,
+      { limit: 5 }
+    );
+
+    // Assert
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ values: [2], size: 1, isLastPage: true });
+  });
+});
@@ -0,0 +1,142 @@
+import axios, { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import winston from 'winston';
+import { createApiClient } from '../src/api-clients';
+import { DEFAULT_RETRY, isRetryable, parseRetryAfter, retryDelay } from '../src/retry';
+import { AuthConfig } from '../src/types';
+
+function requestError(method: string, status?: number, code?: string) {
+  const config = { method, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = status === undefined
+    ? undefined
+    : { status, headers: {}, config, data: {}, statusText: '' } as AxiosResponse;
+  return new AxiosError('failed', code, config, undefined, response);
+}
+
+describe('retry policy', () => {
+  test('should parse Retry-After seconds and dates', () => {
+    // Arrange
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    // Assert
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+
+  test('should only retry failures that are safe to repeat', () => {
+    // Assert
+    expect(isRetryable(requestError('get', 503))).toBe(true);
+    expect(isRetryable(requestError('get', 404))).toBe(false);
+    expect(isRetryable(requestError('get', undefined, 'ECONNRESET'))).toBe(true);
+    expect(isRetryable(requestError('post', 503))).toBe(false);
+    expect(isRetryable(requestError('post', undefined, 'ECONNRESET'))).toBe(false);
+    expect(isRetryable(requestError('post', 429))).toBe(true);
+    expect(isRetryable(requestError('post', undefined, 'ECONNREFUSED'))).toBe(true);
+  });
+
+  test('should back off exponentially up to the maximum delay', () => {
+    // Arrange
+    const retry = { ...DEFAULT_RETRY, baseDelayMs: 100, maxDelayMs: 1000 };
+    const noJitter = () => 1;
+
+    // Assert
+    expect(retryDelay(1, retry, undefined, noJitter)).toBe(100);
+    expect(retryDelay(3, retry, undefined, noJitter)).toBe(400);
+    expect(retryDelay(6, retry, undefined, noJitter)).toBe(1000);
+  });
+
+  test('should honour Retry-After unless it exceeds the maximum delay', () => {
+    // Arrange
+    const retry = { ...DEFAULT_RETRY, maxDelayMs: 10000 };
+
+    // Assert
+    expect(retryDelay(1, retry, 5000)).toBe(5000);
+    expect(retryDelay(1, retry, 60000)).toBeUndefined();
+  });
+});
+
+describe('retrying client', () => {
+  const logger = winston.createLogger({ silent: true });
+  const retry = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000 };
+
+  // Answer each request with the next status, recording what was sent
+  function respondWith(api: AxiosInstance, statuses: number[], headers: Record<string, string> = {}) {
+    const sent: Array<{ method?: string; authorization: unknown }> = [];
+    api.defaults.adapter = async config => {
+      sent.push({ method: config.method, authorization: config.headers.Authorization });
+      const response = { data: {}, status: statuses[sent.length - 1] ?? 200, statusText: '', headers, config };
+      if (response.status >= 400) {
+        throw new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, config, undefined, response as AxiosResponse);
+      }
+      return response;
+    };
+    return sent;
+  }
+
+  function client(auth: AuthConfig = { mode: 'token', token: 'secret' }) {
+    return createApiClient('https://bitbucket.example.com', auth, { retry, logger });
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should retry an idempotent request up to maxAttempts', async () => {
+    // Arrange
+    const api = client();
+    const sent = respondWith(api, [503, 503, 503, 200]);
+
+    // Act & Assert
+    await expect(api.get('/projects')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(sent).toHaveLength(3);
+  });
+
+  test('should succeed once a retry does', async () => {
+    // Arrange
+    const api = client();
+    const sent = respondWith(api, [502, 200]);
+
+    // Act
+    const response = await api.get('/projects');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(sent).toHaveLength(2);
+  });
+
+  test('should not retry a POST that may have been applied', async () => {
+    // Arrange
+    const api = client();
+    const sent = respondWith(api, [503, 200]);
+
+    // Act & Assert
+    await expect(api.post('/projects/TEST/repos/repo/pull-requests', {})).rejects.toMatchObject({ response: { status: 503 } });
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should fail at once when Retry-After exceeds the maximum delay', async () => {
+    // Arrange
+    const api = client();
+    const sent = respondWith(api, [429, 200], { 'retry-after': '5' });
+
+    // Act & Assert
+    await expect(api.get('/projects')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should refresh an expired OAuth 2.0 token before retrying', async () => {
+    // Arrange
+    const refresh = jest.spyOn(axios, 'post').mockResolvedValue({ data: { access_token: 'fresh' } });
+    const api = client({ mode: 'oauth2', accessToken: 'expired', refreshToken: 'refresh', clientId: 'mcp' });
+    const sent = respondWith(api, [401, 503, 200]);
+
+    // Act
+    const response = await api.get('/projects');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(sent.map(request => request.authorization)).toEqual(['Bearer expired', 'Bearer fresh', 'Bearer fresh']);
+  });
+});
@@ -0,0 +1,56 @@
+import { buildSearchQuery, toCodeSearchMatch } from '../src/search';
+import { BitbucketCodeSearchHit } from '../src/types';
+
+describe('code search helpers', () => {
+  test('should append scope qualifiers to the query', () => {
+    // Act
+    const query = buildSearchQuery({
+      query: ' parseConfig ',
+      project: 'PROJ',
+      repository: 'api',
+      extension: '.ts',
+      language: 'typescript'
+    });
+
+    // Assert
+    expect(query).toBe('parseConfig project:PROJ repo:api ext:ts lang:typescript');
+  });
+
+  test('should only scope to a repository within a project', () => {
+    // Act
+    const query = buildSearchQuery({ query: 'TODO', repository: 'api' });
+
+    // Assert
+    expect(query).toBe('TODO');
+  });
+
+  test('should flatten hit contexts and mark highlighted matches', () => {
+    // Arrange
+    const hit: BitbucketCodeSearchHit = {
+      repository: { slug: 'api', name: 'API', project: { key: 'PROJ' } },
+      file: 'src/config.ts',
+      hitContexts: [
+        [{ line: 3, text: 'const a = 1;' }, { line: 4, text: 'if (a &lt; 2) <em>parseConfig</em>();' }],
+        [{ line: 10, text: 'export function <em>parseConfig</em>() {' }]
+      ],
+      pathMatches: [],
+      hitCount: 2
+    };
+
+    // Act
+    const match = toCodeSearchMatch(hit);
+
+    // Assert
+    expect(match).toEqual({
+      project: 'PROJ',
+      repository: 'api',
+      path: 'src/config.ts',
+      hitCount: 2,
+      lines: [
+        { line: 3, text: 'const a = 1;' },
+        { line: 4, text: 'if (a < 2) **parseConfig**();' },
+        { line: 10, text: 'export function **parseConfig**() {' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { AxiosInstance } from 'axios';
+import { getServerVersion, isVersionAtLeast } from '../src/server-version';
+
+describe('server version', () => {
+  test('should fetch the version once per API client', async () => {
+    // Arrange
+    const mockApi = { get: jest.fn().mockResolvedValue({ data: { version: '8.9.2' } }) };
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const versions = [await getServerVersion(api), await getServerVersion(api)];
+
+    // Assert
+    expect(versions).toEqual(['8.9.2', '8.9.2']);
+    expect(mockApi.get).toHaveBeenCalledTimes(1);
+    expect(mockApi.get).toHaveBeenCalledWith('/application-properties');
+  });
+
+  test('should fetch the version again after a failed request', async () => {
+    // Arrange
+    const mockApi = {
+      get: jest.fn()
+        .mockRejectedValueOnce(new Error('Service Unavailable'))
+        .mockResolvedValueOnce({ data: { version: '8.9.2' } })
+    };
+    const api = mockApi as unknown as AxiosInstance;
+
+    // Act
+    const versions = [await getServerVersion(api), await getServerVersion(api), await getServerVersion(api)];
+
+    // Assert
+    expect(versions).toEqual([undefined, '8.9.2', '8.9.2']);
+    expect(mockApi.get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should compare major and minor versions', () => {
+    // Assert
+    expect(isVersionAtLeast('8.9.2', 8)).toBe(true);
+    expect(isVersionAtLeast('7.21.0', 8)).toBe(false);
+    expect(isVersionAtLeast('7.21.0', 7, 7)).toBe(true);
+    expect(isVersionAtLeast(undefined, 7)).toBe(false);
+  });
+});